@@ -0,0 +1,133 @@
+"use client";
+
+import type { ShiftQuality } from "@opengt/shared/types";
+import { GearingChart } from "@/components/GearingChart";
+import { useTelemetry } from "@/lib/useTelemetry";
+
+// The gearing and shift points come with the snapshot; the packet just lights the current gear
+const CAR_FIELDS = ["currentGear"] as const;
+
+function formatRpm(rpm: number): string {
+  return rpm > 0 ? rpm.toLocaleString() : "—";
+}
+
+export default function CarPage() {
+  const { data, snapshot } = useTelemetry({ fields: CAR_FIELDS, hz: 10 });
+  const shifts = snapshot?.shifts;
+  const lastShift = shifts?.lastShift;
+
+  return (
+    <div className="min-h-screen p-6 max-w-3xl mx-auto">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="text-lg font-bold tracking-wider text-muted-foreground uppercase">
+          Car{snapshot && snapshot.carCode > 0 ? ` #${snapshot.carCode}` : ""}
+        </h1>
+        <a
+          href="/"
+          className="text-sm text-muted-foreground hover:text-foreground transition cursor-pointer px-3 py-2 rounded-md hover:bg-muted/50 -mr-3"
+        >
+          <span className="text-lg">←</span> Dashboard
+        </a>
+      </div>
+
+      {/* Gearing */}
+      <div className="bg-card border border-border rounded-lg p-5 mb-6">
+        <h2 className="text-xs text-muted-foreground uppercase tracking-wider mb-3">Gearing</h2>
+        <GearingChart shifts={shifts} currentGear={data?.currentGear} />
+      </div>
+
+      {/* Shift points */}
+      <div className="bg-card border border-border rounded-lg p-5 mb-6">
+        <h2 className="text-xs text-muted-foreground uppercase tracking-wider mb-3">
+          Shift points
+        </h2>
+        <table className="w-full text-xs font-mono">
+          <thead className="text-muted-foreground">
+            <tr>
+              <th className="text-left font-normal pb-2">Gear</th>
+              <th className="text-right font-normal pb-2">Ratio</th>
+              <th className="text-right font-normal pb-2">Upshift at</th>
+              <th className="text-right font-normal pb-2">Top speed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shifts?.gears.map((gear) => (
+              <tr
+                key={gear.gear}
+                className={gear.gear === data?.currentGear ? "font-bold" : undefined}
+              >
+                <td>{gear.gear}</td>
+                <td className="text-right">{gear.ratio.toFixed(3)}</td>
+                <td className="text-right">
+                  {gear.gear === shifts.gears.length ? "—" : formatRpm(gear.shiftRpm)}
+                </td>
+                <td className="text-right">
+                  {gear.speedAtRedline > 0 ? `${gear.speedAtRedline} km/h` : "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {!shifts?.gears.length && (
+          <p className="text-xs text-muted-foreground">Waiting for the car...</p>
+        )}
+        <p className="text-[10px] text-muted-foreground mt-3">
+          Learned from full-throttle acceleration in each gear: the best upshift is where the next
+          gear starts pulling harder.
+        </p>
+      </div>
+
+      {/* Shift quality */}
+      <div className="bg-card border border-border rounded-lg p-5">
+        <h2 className="text-xs text-muted-foreground uppercase tracking-wider mb-3">
+          Shift quality
+        </h2>
+        <div className="grid grid-cols-2 gap-6">
+          <QualityColumn title="This lap" quality={shifts?.lap} />
+          <QualityColumn title="Last lap" quality={shifts?.lastLap} />
+        </div>
+        {lastShift && (
+          <p className="text-xs text-muted-foreground mt-4">
+            Last upshift: {lastShift.fromGear}→{lastShift.fromGear + 1} at{" "}
+            <span className="font-mono text-foreground">{formatRpm(lastShift.rpm)}</span>
+            {lastShift.optimalRpm > 0 && ` (best ${formatRpm(lastShift.optimalRpm)})`}
+            {lastShift.verdict && ` · ${lastShift.verdict}`}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function QualityColumn({ title, quality }: { title: string; quality?: ShiftQuality }) {
+  const judged = quality ? quality.good + quality.early + quality.late + quality.limiter : 0;
+  return (
+    <div className="space-y-1 text-xs">
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">{title}</span>
+        <span className="font-mono font-bold">
+          {quality && quality.score >= 0 ? `${Math.round(quality.score * 100)}%` : "—"}
+        </span>
+      </div>
+      <InfoRow label="Upshifts" value={quality ? `${quality.shifts} (${judged} judged)` : "—"} />
+      <InfoRow label="Good" value={String(quality?.good ?? 0)} />
+      <InfoRow label="Early" value={String(quality?.early ?? 0)} />
+      <InfoRow label="Late" value={String(quality?.late ?? 0)} />
+      <InfoRow label="Off the limiter" value={String(quality?.limiter ?? 0)} />
+      <InfoRow label="Suggestions ignored" value={String(quality?.ignoredSuggestions ?? 0)} />
+      {quality && quality.worstGear > 0 && (
+        <InfoRow label="Worst" value={`out of ${quality.worstGear}`} />
+      )}
+    </div>
+  );
+}
+
+function InfoRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-mono">{value}</span>
+    </div>
+  );
+}
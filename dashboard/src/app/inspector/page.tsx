@@ -0,0 +1,169 @@
+"use client";
+
+import { GAMES } from "@opengt/shared/constants";
+import type { RawInspection, RawWord, TelemetryData } from "@opengt/shared/types";
+import { useEffect, useRef, useState } from "react";
+import { io } from "socket.io-client";
+import { getStoredConsole } from "@/lib/consoleSelection";
+
+interface Range {
+  min: number;
+  max: number;
+}
+
+function formatOffset(offset: number): string {
+  return `0x${offset.toString(16).toUpperCase().padStart(2, "0")}`;
+}
+
+function formatFloat(value: number | null): string {
+  if (value === null) return "—";
+  if (!Number.isFinite(value)) return String(value);
+  return Math.abs(value) >= 1e6 || (value !== 0 && Math.abs(value) < 1e-4)
+    ? value.toExponential(3)
+    : value.toFixed(4);
+}
+
+/** Road tilt along one world axis, in degrees, from that component of the plane normal */
+function planeAngle(component: number): number {
+  return (Math.asin(Math.max(-1, Math.min(1, component))) * 180) / Math.PI;
+}
+
+// The raw words are the point of this page; only the road plane comes from parsed telemetry
+const INSPECTOR_FIELDS = ["game", "roadPlane", "roadPlaneDistance"] as const;
+type InspectorData = Pick<TelemetryData, (typeof INSPECTOR_FIELDS)[number]>;
+
+export default function InspectorPage() {
+  const [raw, setRaw] = useState<RawInspection | null>(null);
+  const [data, setData] = useState<InspectorData | null>(null);
+  // Observed value range per offset — constant words are less interesting
+  const rangesRef = useRef<Map<number, Range>>(new Map());
+
+  useEffect(() => {
+    const socket = io("http://localhost:4401", { transports: ["websocket"] });
+
+    socket.on("connect", () => {
+      socket.emit("console:follow", { id: getStoredConsole() });
+      socket.emit("telemetry:subscribe", { fields: INSPECTOR_FIELDS });
+      socket.emit("inspector:subscribe");
+    });
+    socket.on("telemetry", (d: InspectorData) => setData(d));
+    socket.on("telemetry:raw", (r: RawInspection) => {
+      for (const word of r.words) {
+        const value = word.float ?? word.int;
+        if (!Number.isFinite(value)) continue;
+        const range = rangesRef.current.get(word.offset);
+        if (!range) {
+          rangesRef.current.set(word.offset, { min: value, max: value });
+        } else {
+          range.min = Math.min(range.min, value);
+          range.max = Math.max(range.max, value);
+        }
+      }
+      setRaw(r);
+    });
+
+    return () => {
+      socket.emit("inspector:unsubscribe");
+      socket.disconnect();
+    };
+  }, []);
+
+  const plane = data?.roadPlane;
+
+  return (
+    <div className="min-h-screen p-6 max-w-3xl mx-auto">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="text-lg font-bold tracking-wider text-muted-foreground uppercase">
+          Raw Inspector
+        </h1>
+        <a
+          href="/"
+          className="text-sm text-muted-foreground hover:text-foreground transition cursor-pointer px-3 py-2 rounded-md hover:bg-muted/50 -mr-3"
+        >
+          <span className="text-lg">←</span> Dashboard
+        </a>
+      </div>
+
+      {/* Road plane */}
+      <div className="bg-card border border-border rounded-lg p-5 mb-6">
+        <h2 className="text-xs text-muted-foreground uppercase tracking-wider mb-3">Road plane</h2>
+        {data && !plane && (
+          <p className="text-xs text-muted-foreground mb-3">Not sent by {GAMES[data.game].name}.</p>
+        )}
+        <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-xs">
+          <InfoRow
+            label="Normal"
+            value={
+              plane ? `${plane.x.toFixed(4)}, ${plane.y.toFixed(4)}, ${plane.z.toFixed(4)}` : "—"
+            }
+          />
+          <InfoRow label="Distance" value={data?.roadPlaneDistance?.toFixed(3) ?? "—"} />
+          <InfoRow label="Tilt X" value={plane ? `${planeAngle(plane.x).toFixed(2)}°` : "—"} />
+          <InfoRow label="Tilt Z" value={plane ? `${planeAngle(plane.z).toFixed(2)}°` : "—"} />
+        </div>
+      </div>
+
+      {/* Unknown words */}
+      <div className="bg-card border border-border rounded-lg p-5">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-xs text-muted-foreground uppercase tracking-wider">
+            Unknown regions
+          </h2>
+          <span className="text-xs text-muted-foreground/80">
+            {raw ? `format "${raw.format}" · packet ${raw.packetId}` : "Waiting for packets..."}
+          </span>
+        </div>
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr className="text-muted-foreground text-left">
+              <th className="font-normal pb-2">Offset</th>
+              <th className="font-normal pb-2">Label</th>
+              <th className="font-normal pb-2">Hex</th>
+              <th className="font-normal pb-2 text-right">Int</th>
+              <th className="font-normal pb-2 text-right">Float</th>
+              <th className="font-normal pb-2 text-right">Range</th>
+            </tr>
+          </thead>
+          <tbody>
+            {raw?.words.map((w) => (
+              <WordRow key={w.offset} word={w} range={rangesRef.current.get(w.offset)} />
+            ))}
+          </tbody>
+        </table>
+        <button
+          type="button"
+          onClick={() => rangesRef.current.clear()}
+          className="mt-4 text-xs text-muted-foreground hover:text-foreground transition cursor-pointer px-3 py-1.5 rounded hover:bg-muted/50 -ml-3"
+        >
+          Reset ranges
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function WordRow({ word, range }: { word: RawWord; range?: Range }) {
+  const constant = range !== undefined && range.min === range.max;
+  return (
+    <tr className={constant ? "text-muted-foreground/60" : "text-foreground"}>
+      <td className="py-0.5">{formatOffset(word.offset)}</td>
+      <td className="py-0.5">{word.label}</td>
+      <td className="py-0.5">{word.hex}</td>
+      <td className="py-0.5 text-right">{word.int}</td>
+      <td className="py-0.5 text-right">{formatFloat(word.float)}</td>
+      <td className="py-0.5 text-right">
+        {range ? `${formatFloat(range.min)} … ${formatFloat(range.max)}` : "—"}
+      </td>
+    </tr>
+  );
+}
+
+function InfoRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-mono">{value}</span>
+    </div>
+  );
+}
@@ -1,22 +1,65 @@
 "use client";
 
+import { formatLapTime } from "@opengt/shared/telemetry";
 import { useEffect, useRef, useState } from "react";
 import { io, type Socket } from "socket.io-client";
 import { ConnectionStatus } from "@/components/ConnectionStatus";
+import { ConsoleSelector } from "@/components/ConsoleSelector";
+import { CornerTable } from "@/components/CornerTable";
+import { DeltaBar } from "@/components/DeltaBar";
 import { EngineerHistory } from "@/components/engineer/EngineerHistory";
 import { EngineerOverlay } from "@/components/engineer/EngineerOverlay";
 import { EngineerSettings } from "@/components/engineer/EngineerSettings";
+import { FrictionCircle } from "@/components/FrictionCircle";
 import { FuelGauge } from "@/components/FuelGauge";
 import { GearIndicator } from "@/components/GearIndicator";
 import { LapTimes } from "@/components/LapTimes";
+import { LinkQuality } from "@/components/LinkQuality";
 import { PedalBars } from "@/components/PedalBars";
+import { SectorTimes } from "@/components/SectorTimes";
 import { Speedometer } from "@/components/Speedometer";
+import { StintTable } from "@/components/StintTable";
 import { Tachometer } from "@/components/Tachometer";
 import { TrackMap } from "@/components/TrackMap";
+import { TrackName } from "@/components/TrackName";
 import { TyreTemps } from "@/components/TyreTemps";
 import { useEngineer } from "@/lib/useEngineer";
 import { useTelemetry } from "@/lib/useTelemetry";
 
+// Everything the widgets below render — the rest of the packet isn't sent to this screen
+const DASHBOARD_FIELDS = [
+  "engineRPM",
+  "minAlertRPM",
+  "maxAlertRPM",
+  "tyreTemp",
+  "slipRatio",
+  "gForce",
+  "slipAngle",
+  "speed",
+  "calcMaxSpeed",
+  "currentGear",
+  "suggestedGear",
+  "throttle",
+  "brake",
+  "position",
+  "lapCount",
+  "totalLaps",
+  "currentLapTime",
+  "deltaToSessionBest",
+  "deltaToAllTimeBest",
+  "predictedLapTime",
+  "bestLapFormatted",
+  "lastLapFormatted",
+  "fuelLevel",
+  "fuelCapacity",
+  "carOnTrack",
+  "paused",
+  "tcsActive",
+  "asmActive",
+  "handbrake",
+  "revLimiter",
+] as const;
+
 const PERSONALITY_NAMES: Record<string, string> = {
   marcus: "Marcus",
   johnny: "Johnny",
@@ -24,9 +67,22 @@ const PERSONALITY_NAMES: Record<string, string> = {
 };
 
 export default function Dashboard() {
-  const { connected, data, snapshot, trackPoints } = useTelemetry();
-  const engineer = useEngineer();
+  const {
+    connected,
+    data,
+    snapshot,
+    linkStats,
+    consoles,
+    consoleState,
+    consoleId,
+    selectConsole,
+    trackPoints,
+    setSectorSplits,
+    nameTrack,
+  } = useTelemetry({ fields: DASHBOARD_FIELDS });
+  const engineer = useEngineer(consoleId);
   const [historyOpen, setHistoryOpen] = useState(false);
+  const [pickingSplits, setPickingSplits] = useState(false);
   const [activePersonality, setActivePersonality] = useState("marcus");
   const [hasApiKey, setHasApiKey] = useState(false);
   const configSocketRef = useRef<Socket | null>(null);
@@ -46,6 +102,7 @@ export default function Dashboard() {
   }, []);
 
   const d = data;
+  const sectors = snapshot?.sectors;
 
   return (
     <div className="min-h-screen p-4 max-w-7xl mx-auto">
@@ -55,13 +112,26 @@ export default function Dashboard() {
           Open GT
         </h1>
         <div className="flex items-center gap-2">
+          <ConsoleSelector consoles={consoles} selected={consoleId} onSelect={selectConsole} />
+          <a
+            href="/car"
+            className="text-sm text-muted-foreground hover:text-foreground transition cursor-pointer px-3 py-2 rounded-md hover:bg-muted/50"
+          >
+            Car
+          </a>
+          <a
+            href="/inspector"
+            className="text-sm text-muted-foreground hover:text-foreground transition cursor-pointer px-3 py-2 rounded-md hover:bg-muted/50"
+          >
+            Inspector
+          </a>
           <a
             href="/settings"
             className="text-sm text-muted-foreground hover:text-foreground transition cursor-pointer px-3 py-2 rounded-md hover:bg-muted/50"
           >
             <span className="text-lg">⚙</span> Settings
           </a>
-          <ConnectionStatus connected={connected} />
+          <ConnectionStatus connected={connected} consoleState={consoleState} />
         </div>
       </div>
 
@@ -77,7 +147,14 @@ export default function Dashboard() {
             />
           </Card>
           <Card title="Tyres">
-            <TyreTemps temps={d?.tyreTemp ?? { fl: 0, fr: 0, rl: 0, rr: 0 }} />
+            <TyreTemps
+              temps={d?.tyreTemp ?? { fl: 0, fr: 0, rl: 0, rr: 0 }}
+              slip={d?.slipRatio}
+              lapSlips={snapshot?.wheelSlip.lap}
+            />
+          </Card>
+          <Card title="G-Force">
+            <FrictionCircle g={d?.carOnTrack ? d.gForce : null} slipAngle={d?.slipAngle} />
           </Card>
         </div>
 
@@ -95,11 +172,31 @@ export default function Dashboard() {
             </Card>
           </div>
           <Card title="Track Map">
+            <TrackName track={snapshot?.track} onRename={nameTrack} />
             <TrackMap
               trackPoints={trackPoints}
               currentPos={d ? { x: d.position.x, z: d.position.z } : null}
+              splitPoints={sectors?.splitPoints}
+              // Each pick adds a split to the custom ones so far
+              onPick={
+                pickingSplits
+                  ? (point) =>
+                      setSectorSplits([...(sectors?.custom ? sectors.splitPoints : []), point])
+                  : undefined
+              }
             />
           </Card>
+          <Card title="Sectors">
+            <SectorTimes
+              sectors={sectors}
+              picking={pickingSplits}
+              onTogglePicking={() => setPickingSplits((prev) => !prev)}
+              onAuto={() => setSectorSplits(null)}
+            />
+          </Card>
+          <Card title="Corners">
+            <CornerTable corners={snapshot?.corners} />
+          </Card>
         </div>
 
         {/* Right column: Laps + Fuel + Info */}
@@ -108,18 +205,30 @@ export default function Dashboard() {
             <LapTimes
               lap={d?.lapCount ?? 0}
               totalLaps={d?.totalLaps ?? 0}
+              current={formatLapTime(d?.currentLapTime ?? -1)}
               best={d?.bestLapFormatted ?? "--:--.---"}
               last={d?.lastLapFormatted ?? "--:--.---"}
             />
           </Card>
+          <Card title="Delta">
+            <DeltaBar
+              sessionBest={d?.deltaToSessionBest ?? null}
+              allTimeBest={d?.deltaToAllTimeBest ?? null}
+              predicted={formatLapTime(d?.predictedLapTime ?? -1)}
+            />
+          </Card>
           <Card title="Fuel">
             <FuelGauge
               level={d?.fuelLevel ?? 0}
               capacity={d?.fuelCapacity ?? 0}
               estimatedLaps={snapshot?.estimatedLapsRemaining}
               fuelUsageEnabled={snapshot?.fuelUsageEnabled}
+              strategy={snapshot?.fuelStrategy}
             />
           </Card>
+          <Card title="Stints">
+            <StintTable pit={snapshot?.pit} />
+          </Card>
           <Card title="Status">
             <div className="space-y-1 text-xs">
               <StatusRow label="On Track" active={d?.carOnTrack} />
@@ -130,6 +239,9 @@ export default function Dashboard() {
               <StatusRow label="Rev Limiter" active={d?.revLimiter} warn />
             </div>
           </Card>
+          <Card title="Link">
+            <LinkQuality stats={linkStats} />
+          </Card>
         </div>
       </div>
 
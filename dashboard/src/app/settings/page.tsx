@@ -1,6 +1,17 @@
 "use client";
 
+import { GT7_RECV_PORT, GT7_SEND_PORT } from "@opengt/shared/constants";
 import { PERSONALITIES } from "@opengt/shared/personalities";
+import type {
+  ConsoleTargetConfig,
+  NetworkInterfaceInfo,
+  PacketFormat,
+  RelayMode,
+  RelayTarget,
+  TelemetrySourceConfig,
+  TelemetrySourceKind,
+  TelemetrySourceState,
+} from "@opengt/shared/types";
 import { useCallback, useEffect, useRef, useState, type ChangeEvent } from "react";
 import { io, type Socket } from "socket.io-client";
 
@@ -9,8 +20,31 @@ interface ConfigState {
   hasApiKey: boolean;
   engineerEnabled: boolean;
   apiKeyValid: boolean | null;
+  packetFormat: PacketFormat;
+  rawCaptureEnabled: boolean;
+  relayTargets: RelayTarget[];
+  consoleTarget: ConsoleTargetConfig;
+  networkInterfaces: NetworkInterfaceInfo[];
 }
 
+const HEARTBEAT_OPTIONS_MS = [1_000, 2_000, 5_000, 10_000, 20_000];
+
+const PACKET_FORMAT_OPTIONS: { format: PacketFormat; name: string; description: string }[] = [
+  { format: "A", name: "Standard", description: "296 bytes, core telemetry" },
+  { format: "B", name: "Extended", description: "316 bytes, adds steering and sway/heave/surge" },
+  {
+    format: "~",
+    name: "Full",
+    description: "344 bytes, adds filtered pedals and energy recovery",
+  },
+];
+
+const SOURCE_OPTIONS: { kind: TelemetrySourceKind; name: string; description: string }[] = [
+  { kind: "live", name: "Console", description: "live telemetry from GT7" },
+  { kind: "synthetic", name: "Synthetic", description: "scripted car on a test oval" },
+  { kind: "replay", name: "Replay", description: "recorded session or raw capture" },
+];
+
 const LS_PERSONALITY_KEY = "opengt:personalityId";
 const LS_INSTRUCTIONS_KEY = "opengt:customInstructions";
 
@@ -20,10 +54,20 @@ export default function SettingsPage() {
     hasApiKey: false,
     engineerEnabled: false,
     apiKeyValid: null,
+    packetFormat: "A",
+    rawCaptureEnabled: false,
+    relayTargets: [],
+    consoleTarget: { explicitIPs: [], interfaces: [], heartbeatIntervalMs: 10_000 },
+    networkInterfaces: [],
   });
+  const [sourceState, setSourceState] = useState<TelemetrySourceState | null>(null);
   const [apiKey, setApiKey] = useState("");
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
+  const [consoleIPs, setConsoleIPs] = useState("");
+  const [relayHost, setRelayHost] = useState("127.0.0.1");
+  const [relayPort, setRelayPort] = useState("");
+  const [relayMode, setRelayMode] = useState<RelayMode>("encrypted");
   const socketRef = useRef<Socket | null>(null);
 
   // Engineer settings (persisted to localStorage)
@@ -67,6 +111,11 @@ export default function SettingsPage() {
 
     socket.on("config:state", (state: ConfigState) => {
       setConfig(state);
+      setConsoleIPs(state.consoleTarget.explicitIPs.join(", "));
+    });
+
+    socket.on("source:state", (state: TelemetrySourceState) => {
+      setSourceState(state);
     });
 
     socket.on("connect", () => {
@@ -113,6 +162,80 @@ export default function SettingsPage() {
     socketRef.current?.emit("config:setEngineerEnabled", { enabled });
   }, []);
 
+  const setPacketFormat = useCallback((format: PacketFormat) => {
+    socketRef.current?.emit("config:setPacketFormat", { format });
+  }, []);
+
+  const toggleRawCapture = useCallback((enabled: boolean) => {
+    socketRef.current?.emit("config:setRawCapture", { enabled });
+  }, []);
+
+  const setConsoleTarget = useCallback(
+    (patch: Partial<ConsoleTargetConfig>) => {
+      socketRef.current?.emit("config:setConsoleTarget", { ...config.consoleTarget, ...patch });
+    },
+    [config.consoleTarget],
+  );
+
+  const saveConsoleIPs = useCallback(() => {
+    const explicitIPs = consoleIPs
+      .split(",")
+      .map((ip) => ip.trim())
+      .filter(Boolean);
+    setConsoleTarget({ explicitIPs });
+  }, [consoleIPs, setConsoleTarget]);
+
+  // No interfaces selected means all of them
+  const toggleInterface = useCallback(
+    (name: string) => {
+      const selected = config.consoleTarget.interfaces;
+      setConsoleTarget({
+        interfaces: selected.includes(name)
+          ? selected.filter((n) => n !== name)
+          : [...selected, name],
+      });
+    },
+    [config.consoleTarget.interfaces, setConsoleTarget],
+  );
+
+  const setRelayTargets = useCallback((targets: RelayTarget[]) => {
+    socketRef.current?.emit("config:setRelayTargets", { targets });
+  }, []);
+
+  // GT7's own ports are taken by the server and the console
+  const relayPortNumber = Number(relayPort);
+  const relayPortValid =
+    Number.isInteger(relayPortNumber) &&
+    relayPortNumber > 0 &&
+    relayPortNumber < 65536 &&
+    relayPortNumber !== GT7_SEND_PORT &&
+    relayPortNumber !== GT7_RECV_PORT;
+
+  const addRelayTarget = useCallback(() => {
+    if (!relayHost.trim() || !relayPortValid) return;
+    setRelayTargets([
+      ...config.relayTargets,
+      { host: relayHost.trim(), port: relayPortNumber, mode: relayMode },
+    ]);
+    setRelayPort("");
+  }, [config.relayTargets, relayHost, relayPortNumber, relayPortValid, relayMode, setRelayTargets]);
+
+  const setSource = useCallback((source: TelemetrySourceConfig) => {
+    socketRef.current?.emit("source:set", source);
+  }, []);
+
+  // Replay covers both recording types — the file extension picks the source kind
+  const selectRecording = useCallback(
+    (file: string) => {
+      if (!file) return;
+      setSource({ kind: file.endsWith(".ndjson") ? "replay" : "capture", file, loop: true });
+    },
+    [setSource],
+  );
+
+  const activeSource = sourceState?.source.kind === "capture" ? "replay" : sourceState?.source.kind;
+  const recordings = sourceState?.recordings ?? [];
+
   return (
     <div className="min-h-screen p-6 max-w-xl mx-auto">
       {/* Header */}
@@ -128,6 +251,250 @@ export default function SettingsPage() {
         </a>
       </div>
 
+      {/* Source */}
+      <div className="bg-card border border-border rounded-lg p-5 mb-6">
+        <h2 className="text-xs text-muted-foreground uppercase tracking-wider mb-1">Source</h2>
+        <p className="text-xs text-muted-foreground/80 mb-4">Where telemetry comes from</p>
+        <div className="space-y-1">
+          {SOURCE_OPTIONS.map((o) => (
+            <button
+              type="button"
+              key={o.kind}
+              onClick={() =>
+                o.kind === "replay"
+                  ? selectRecording(recordings[0] ?? "")
+                  : setSource({ kind: o.kind })
+              }
+              disabled={o.kind === "replay" && recordings.length === 0}
+              className={`w-full text-left px-3 py-2.5 rounded-md text-xs transition cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed ${
+                activeSource === o.kind
+                  ? "bg-muted text-foreground"
+                  : "text-muted-foreground hover:bg-muted/50"
+              }`}
+            >
+              <span className="font-medium">
+                {activeSource === o.kind ? <span className="text-base">✓ </span> : ""}
+                {o.name}
+              </span>
+              <span className="text-muted-foreground/80 ml-1.5">— {o.description}</span>
+            </button>
+          ))}
+        </div>
+        {activeSource === "replay" && (
+          <select
+            value={sourceState?.source.file ?? ""}
+            onChange={(e) => selectRecording(e.target.value)}
+            className="mt-3 w-full bg-muted border border-border rounded-md px-3 py-2.5 text-xs text-foreground focus:outline-none focus:border-accent-blue"
+          >
+            {recordings.map((file) => (
+              <option key={file} value={file}>
+                {file}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {/* Console */}
+      <div className="bg-card border border-border rounded-lg p-5 mb-6">
+        <h2 className="text-xs text-muted-foreground uppercase tracking-wider mb-1">Console</h2>
+        <p className="text-xs text-muted-foreground/80 mb-4">How the server finds your PS5</p>
+
+        <span className="text-xs text-muted-foreground uppercase tracking-wider block mb-1">
+          Console IP
+        </span>
+        <p className="text-xs text-muted-foreground/60 mb-2">
+          Leave empty to auto-discover. Comma-separate several consoles.
+        </p>
+        <div className="flex gap-2">
+          <input
+            value={consoleIPs}
+            onChange={(e) => setConsoleIPs(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && saveConsoleIPs()}
+            placeholder="Auto-discover"
+            className="flex-1 bg-muted border border-border rounded-md px-3 py-2.5 text-xs text-foreground font-mono placeholder:text-muted-foreground/60 placeholder:font-sans focus:outline-none focus:border-accent-blue"
+          />
+          <button
+            type="button"
+            onClick={saveConsoleIPs}
+            disabled={consoleIPs === config.consoleTarget.explicitIPs.join(", ")}
+            className="px-5 py-2.5 rounded-md text-xs font-medium bg-accent-blue/20 text-accent-blue hover:bg-accent-blue/30 transition cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save
+          </button>
+        </div>
+
+        {config.consoleTarget.explicitIPs.length === 0 && config.networkInterfaces.length > 0 && (
+          <div className="mt-6">
+            <span className="text-xs text-muted-foreground uppercase tracking-wider block mb-1">
+              Broadcast on
+            </span>
+            <p className="text-xs text-muted-foreground/60 mb-2">
+              None selected means every interface
+            </p>
+            <div className="space-y-1">
+              {config.networkInterfaces.map((iface) => {
+                const active = config.consoleTarget.interfaces.includes(iface.name);
+                return (
+                  <button
+                    type="button"
+                    key={`${iface.name}:${iface.address}`}
+                    onClick={() => toggleInterface(iface.name)}
+                    className={`w-full text-left px-3 py-2.5 rounded-md text-xs transition cursor-pointer ${
+                      active
+                        ? "bg-muted text-foreground"
+                        : "text-muted-foreground hover:bg-muted/50"
+                    }`}
+                  >
+                    <span className="font-medium">
+                      {active ? <span className="text-base">✓ </span> : ""}
+                      {iface.name}
+                    </span>
+                    <span className="text-muted-foreground/80 ml-1.5 font-mono">
+                      — {iface.address} → {iface.broadcast}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between mt-6">
+          <div>
+            <span className="text-xs text-muted-foreground uppercase tracking-wider block mb-1">
+              Heartbeat
+            </span>
+            <p className="text-xs text-muted-foreground/60">How often to ping the console</p>
+          </div>
+          <select
+            value={config.consoleTarget.heartbeatIntervalMs}
+            onChange={(e) => setConsoleTarget({ heartbeatIntervalMs: Number(e.target.value) })}
+            className="bg-muted border border-border rounded-md px-3 py-2 text-xs text-foreground focus:outline-none focus:border-accent-blue"
+          >
+            {HEARTBEAT_OPTIONS_MS.map((ms) => (
+              <option key={ms} value={ms}>
+                Every {ms / 1000}s
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Telemetry */}
+      <div className="bg-card border border-border rounded-lg p-5 mb-6">
+        <h2 className="text-xs text-muted-foreground uppercase tracking-wider mb-1">Telemetry</h2>
+        <p className="text-xs text-muted-foreground/80 mb-4">
+          Packet format requested from the console
+        </p>
+        <div className="space-y-1">
+          {PACKET_FORMAT_OPTIONS.map((o) => (
+            <button
+              type="button"
+              key={o.format}
+              onClick={() => setPacketFormat(o.format)}
+              className={`w-full text-left px-3 py-2.5 rounded-md text-xs transition cursor-pointer ${
+                config.packetFormat === o.format
+                  ? "bg-muted text-foreground"
+                  : "text-muted-foreground hover:bg-muted/50"
+              }`}
+            >
+              <span className="font-medium">
+                {config.packetFormat === o.format ? <span className="text-base">✓ </span> : ""}
+                {o.name}
+              </span>
+              <span className="text-muted-foreground/80 ml-1.5">— {o.description}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between mt-6">
+          <div>
+            <span className="text-xs text-muted-foreground uppercase tracking-wider block mb-1">
+              Raw capture
+            </span>
+            <p className="text-xs text-muted-foreground/60">
+              Also save undecrypted packets (.gtcap) with each session
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => toggleRawCapture(!config.rawCaptureEnabled)}
+            className={`w-10 h-5 rounded-full transition relative cursor-pointer ${
+              config.rawCaptureEnabled ? "bg-accent-green" : "bg-border"
+            }`}
+          >
+            <span
+              className={`absolute left-0.5 top-0.5 w-4 h-4 rounded-full bg-foreground transition-transform ${
+                config.rawCaptureEnabled ? "translate-x-5" : "translate-x-0"
+              }`}
+            />
+          </button>
+        </div>
+      </div>
+
+      {/* Relay */}
+      <div className="bg-card border border-border rounded-lg p-5 mb-6">
+        <h2 className="text-xs text-muted-foreground uppercase tracking-wider mb-1">Relay</h2>
+        <p className="text-xs text-muted-foreground/80 mb-4">
+          Forward console packets to other GT7 tools instead of fighting over the heartbeat
+        </p>
+        {config.relayTargets.length > 0 && (
+          <div className="space-y-1 mb-3">
+            {config.relayTargets.map((t, i) => (
+              <div
+                key={`${t.host}:${t.port}:${t.mode}`}
+                className="flex items-center justify-between bg-muted rounded-md px-3 py-2"
+              >
+                <span className="text-xs font-mono">
+                  {t.host}:{t.port}
+                  <span className="text-muted-foreground/80 ml-1.5 font-sans">— {t.mode}</span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setRelayTargets(config.relayTargets.filter((_, j) => j !== i))}
+                  className="text-xs text-accent-red/70 hover:text-accent-red transition cursor-pointer px-3 py-1.5 rounded hover:bg-accent-red/10"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <input
+            value={relayHost}
+            onChange={(e) => setRelayHost(e.target.value)}
+            placeholder="Host"
+            className="flex-1 min-w-0 bg-muted border border-border rounded-md px-3 py-2.5 text-xs text-foreground placeholder:text-muted-foreground/60 focus:outline-none focus:border-accent-blue"
+          />
+          <input
+            value={relayPort}
+            onChange={(e) => setRelayPort(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && addRelayTarget()}
+            placeholder="Port"
+            inputMode="numeric"
+            className="w-20 bg-muted border border-border rounded-md px-3 py-2.5 text-xs text-foreground placeholder:text-muted-foreground/60 focus:outline-none focus:border-accent-blue"
+          />
+          <select
+            value={relayMode}
+            onChange={(e) => setRelayMode(e.target.value as RelayMode)}
+            className="bg-muted border border-border rounded-md px-3 py-2.5 text-xs text-foreground focus:outline-none focus:border-accent-blue"
+          >
+            <option value="encrypted">Encrypted</option>
+            <option value="decrypted">Decrypted</option>
+          </select>
+          <button
+            type="button"
+            onClick={addRelayTarget}
+            disabled={!relayHost.trim() || !relayPortValid}
+            className="px-5 py-2.5 rounded-md text-xs font-medium bg-accent-blue/20 text-accent-blue hover:bg-accent-blue/30 transition cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+
       {/* AI Race Engineer */}
       <div className="bg-card border border-border rounded-lg p-5 mb-6">
         <div className="flex items-center justify-between">
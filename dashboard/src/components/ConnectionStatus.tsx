@@ -1,14 +1,39 @@
 "use client";
+import type { ConsoleLinkPhase, ConsoleLinkState } from "@opengt/shared/types";
+
+const CONSOLE_PHASES: Record<ConsoleLinkPhase, { label: string; dot: string }> = {
+  searching: { label: "Searching", dot: "bg-muted-foreground animate-pulse" },
+  locked: { label: "Console", dot: "bg-accent-green" },
+  stale: { label: "Console stale", dot: "bg-accent-orange animate-pulse" },
+  lost: { label: "Console lost", dot: "bg-accent-red" },
+};
+
+export function ConnectionStatus({
+  connected,
+  consoleState,
+}: {
+  connected: boolean;
+  consoleState?: ConsoleLinkState | null;
+}) {
+  // The console link only means something while the server is reachable
+  const phase = connected && consoleState ? CONSOLE_PHASES[consoleState.phase] : null;
 
-export function ConnectionStatus({ connected }: { connected: boolean }) {
   return (
-    <div className="flex items-center gap-2">
-      <div
-        className={`w-2.5 h-2.5 rounded-full ${connected ? "bg-accent-green animate-pulse" : "bg-accent-red"}`}
-      />
-      <span className="text-xs text-muted-foreground">
-        {connected ? "Connected" : "Disconnected"}
-      </span>
+    <div className="flex items-center gap-4">
+      {phase && (
+        <div className="flex items-center gap-2" title={consoleState?.address ?? undefined}>
+          <div className={`w-2.5 h-2.5 rounded-full ${phase.dot}`} />
+          <span className="text-xs text-muted-foreground">{phase.label}</span>
+        </div>
+      )}
+      <div className="flex items-center gap-2">
+        <div
+          className={`w-2.5 h-2.5 rounded-full ${connected ? "bg-accent-green animate-pulse" : "bg-accent-red"}`}
+        />
+        <span className="text-xs text-muted-foreground">
+          {connected ? "Connected" : "Disconnected"}
+        </span>
+      </div>
     </div>
   );
 }
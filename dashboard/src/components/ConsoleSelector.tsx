@@ -0,0 +1,44 @@
+"use client";
+import { GAMES } from "@opengt/shared/constants";
+import type { ConsoleInfo } from "@opengt/shared/types";
+
+function label(c: ConsoleInfo): string {
+  // Only call out the game when it isn't the default
+  const name =
+    c.game && c.game !== "gt7"
+      ? `${c.address ?? c.id} (${GAMES[c.game].name})`
+      : (c.address ?? c.id);
+  return c.carOnTrack ? `${name} · car ${c.carCode}` : name;
+}
+
+/** Pick which console this screen follows. Hidden until there's more than one to choose from. */
+export function ConsoleSelector({
+  consoles,
+  selected,
+  onSelect,
+}: {
+  consoles: ConsoleInfo[];
+  selected: string | null;
+  onSelect: (id: string | null) => void;
+}) {
+  const selectedMissing = selected !== null && !consoles.some((c) => c.id === selected);
+  if (consoles.length < 2 && !selectedMissing) return null;
+
+  const primary = consoles.find((c) => c.primary);
+
+  return (
+    <select
+      value={selected ?? ""}
+      onChange={(e) => onSelect(e.target.value || null)}
+      className="bg-muted border border-border rounded-md px-3 py-2 text-xs text-foreground focus:outline-none focus:border-accent-blue"
+    >
+      <option value="">Auto{primary ? ` (${primary.address ?? primary.id})` : ""}</option>
+      {consoles.map((c) => (
+        <option key={c.id} value={c.id}>
+          {label(c)}
+        </option>
+      ))}
+      {selectedMissing && <option value={selected}>{selected} (offline)</option>}
+    </select>
+  );
+}
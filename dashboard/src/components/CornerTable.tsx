@@ -0,0 +1,73 @@
+"use client";
+
+import type { CornerAnalysis } from "@opengt/shared/types";
+
+function formatDelta(value: number, digits: number): string {
+  return `${value > 0 ? "+" : value < 0 ? "−" : "±"}${Math.abs(value).toFixed(digits)}`;
+}
+
+/** Time lost is red, gained green; for min speed it's the other way round. */
+function deltaColor(value: number): string | undefined {
+  if (value === 0) return undefined;
+  return value > 0 ? "#ef4444" : "#22c55e";
+}
+
+export function CornerTable({ corners }: { corners?: CornerAnalysis }) {
+  if (!corners || corners.count === 0) {
+    return (
+      <div className="text-xs text-muted-foreground">Corners are found on the first clean lap</div>
+    );
+  }
+
+  return (
+    <table className="w-full text-xs font-mono">
+      <thead className="text-muted-foreground">
+        <tr>
+          <th className="text-left font-normal">Turn</th>
+          <th className="text-right font-normal">Brake</th>
+          <th className="text-right font-normal">Entry</th>
+          <th className="text-right font-normal">Min</th>
+          <th className="text-right font-normal">Exit</th>
+          <th className="text-right font-normal">Gear</th>
+          <th className="text-right font-normal">Time</th>
+          <th className="text-right font-normal">Δ best</th>
+          <th className="text-right font-normal">Δ min</th>
+        </tr>
+      </thead>
+      <tbody>
+        {corners.last.map((pass, i) => {
+          const delta = corners.lastDelta[i];
+          return (
+            <tr
+              // biome-ignore lint/suspicious/noArrayIndexKey: corners are numbered by position
+              key={i}
+              className={corners.current === i ? "font-bold" : undefined}
+            >
+              <td className="text-muted-foreground">T{i + 1}</td>
+              <td className="text-right">
+                {pass && pass.brakingPoint >= 0 ? `${pass.brakingPoint}m` : "—"}
+              </td>
+              <td className="text-right">{pass?.entrySpeed ?? "—"}</td>
+              <td className="text-right">{pass?.minSpeed ?? "—"}</td>
+              <td className="text-right">{pass?.exitSpeed ?? "—"}</td>
+              <td className="text-right">{pass?.gear ?? "—"}</td>
+              <td className="text-right">{pass ? (pass.time / 1000).toFixed(2) : "—"}</td>
+              <td
+                className="text-right"
+                style={{ color: delta ? deltaColor(delta.time) : undefined }}
+              >
+                {delta ? formatDelta(delta.time / 1000, 2) : ""}
+              </td>
+              <td
+                className="text-right"
+                style={{ color: delta ? deltaColor(-delta.minSpeed) : undefined }}
+              >
+                {delta ? formatDelta(delta.minSpeed, 0) : ""}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
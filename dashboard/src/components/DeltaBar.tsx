@@ -0,0 +1,63 @@
+"use client";
+
+const FULL_SCALE_MS = 2_000; // the bar is full at ±2s
+
+function formatDelta(ms: number | null): string {
+  if (ms === null) return "--.---";
+  return `${ms > 0 ? "+" : ms < 0 ? "−" : "±"}${(Math.abs(ms) / 1000).toFixed(3)}`;
+}
+
+function deltaColor(ms: number | null): string {
+  if (ms === null || ms === 0) return "#737373";
+  return ms < 0 ? "#22c55e" : "#ef4444"; // ahead - green, behind - red
+}
+
+export function DeltaBar({
+  sessionBest,
+  allTimeBest,
+  predicted,
+}: {
+  sessionBest: number | null;
+  allTimeBest: number | null;
+  predicted: string;
+}) {
+  // The bar follows the session best, or the stored best until there is one
+  const delta = sessionBest ?? allTimeBest;
+  const width =
+    delta === null ? 0 : (Math.min(Math.abs(delta), FULL_SCALE_MS) / FULL_SCALE_MS) * 50;
+
+  return (
+    <div className="space-y-1 text-xs">
+      <div className="flex justify-between items-baseline text-base">
+        <span className="font-mono font-bold" style={{ color: deltaColor(delta) }}>
+          {formatDelta(delta)}
+        </span>
+        <span className="font-mono text-muted-foreground">{predicted}</span>
+      </div>
+      <div className="w-full h-3 bg-border rounded-full overflow-hidden relative">
+        <div
+          className="absolute h-full transition-all duration-75"
+          style={{
+            width: `${width}%`,
+            // Ahead grows left of centre, behind grows right
+            left: delta !== null && delta < 0 ? `${50 - width}%` : "50%",
+            backgroundColor: deltaColor(delta),
+          }}
+        />
+        <div className="absolute left-1/2 h-full w-px bg-muted-foreground" />
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Session best</span>
+        <span className="font-mono" style={{ color: deltaColor(sessionBest) }}>
+          {formatDelta(sessionBest)}
+        </span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">All-time best</span>
+        <span className="font-mono" style={{ color: deltaColor(allTimeBest) }}>
+          {formatDelta(allTimeBest)}
+        </span>
+      </div>
+    </div>
+  );
+}
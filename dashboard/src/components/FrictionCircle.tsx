@@ -0,0 +1,89 @@
+"use client";
+import { useEffect, useRef } from "react";
+
+const MAX_G = 2;
+const TRAIL_POINTS = 90; // ~3s at the dashboard's rate
+
+interface GPoint {
+  lateral: number;
+  longitudinal: number;
+}
+
+/** G-g diagram: lateral across, braking down, with a fading trail of recent points. */
+export function FrictionCircle({ g, slipAngle }: { g: GPoint | null; slipAngle?: number }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const trailRef = useRef<GPoint[]>([]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    // biome-ignore lint/style/noNonNullAssertion: canvas 2d context is always available
+    const ctx = canvas.getContext("2d")!;
+    const w = canvas.width,
+      h = canvas.height;
+    const cx = w / 2,
+      cy = h / 2;
+    const r = Math.min(w, h) * 0.45;
+    const toX = (lateral: number) => cx + (lateral / MAX_G) * r;
+    // Acceleration up, braking down
+    const toY = (longitudinal: number) => cy - (longitudinal / MAX_G) * r;
+
+    if (g) {
+      trailRef.current.push(g);
+      if (trailRef.current.length > TRAIL_POINTS) trailRef.current.shift();
+    }
+
+    ctx.clearRect(0, 0, w, h);
+
+    // Rings every 0.5g
+    ctx.strokeStyle = "#262626";
+    ctx.lineWidth = 1;
+    for (let ring = 0.5; ring <= MAX_G; ring += 0.5) {
+      ctx.beginPath();
+      ctx.arc(cx, cy, (ring / MAX_G) * r, 0, 2 * Math.PI);
+      ctx.stroke();
+    }
+    ctx.beginPath();
+    ctx.moveTo(cx - r, cy);
+    ctx.lineTo(cx + r, cy);
+    ctx.moveTo(cx, cy - r);
+    ctx.lineTo(cx, cy + r);
+    ctx.stroke();
+
+    ctx.fillStyle = "#737373";
+    ctx.font = "10px monospace";
+    ctx.textAlign = "left";
+    ctx.textBaseline = "bottom";
+    ctx.fillText("1g", cx + r / 2 + 2, cy - 2);
+    ctx.fillText("2g", cx + r - 16, cy - 2);
+
+    // Trail, older points fainter
+    const trail = trailRef.current;
+    trail.forEach((point, i) => {
+      ctx.fillStyle = `rgba(59, 130, 246, ${((i + 1) / trail.length) * 0.6})`;
+      ctx.beginPath();
+      ctx.arc(toX(point.lateral), toY(point.longitudinal), 2, 0, 2 * Math.PI);
+      ctx.fill();
+    });
+
+    if (!g) return;
+    const total = Math.hypot(g.lateral, g.longitudinal);
+    ctx.fillStyle = "#fafafa";
+    ctx.beginPath();
+    ctx.arc(toX(g.lateral), toY(g.longitudinal), 5, 0, 2 * Math.PI);
+    ctx.fill();
+
+    ctx.font = "bold 14px monospace";
+    ctx.textAlign = "right";
+    ctx.textBaseline = "top";
+    ctx.fillText(`${total.toFixed(2)}g`, w - 4, 4);
+    if (slipAngle !== undefined) {
+      ctx.fillStyle = Math.abs(slipAngle) > 8 ? "#f97316" : "#737373";
+      ctx.font = "11px monospace";
+      ctx.textAlign = "left";
+      ctx.fillText(`slip ${slipAngle.toFixed(1)}°`, 4, 4);
+    }
+  }, [g, slipAngle]);
+
+  return <canvas ref={canvasRef} width={200} height={200} className="w-full h-auto" />;
+}
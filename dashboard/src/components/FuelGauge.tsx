@@ -1,15 +1,19 @@
 "use client";
 
+import type { FuelStrategy } from "@opengt/shared/types";
+
 export function FuelGauge({
   level,
   capacity,
   estimatedLaps,
   fuelUsageEnabled,
+  strategy,
 }: {
   level: number;
   capacity: number;
   estimatedLaps?: number;
   fuelUsageEnabled?: boolean | null;
+  strategy?: FuelStrategy | null;
 }) {
   const pct = capacity > 0 ? Math.round((level / capacity) * 100) : 0;
   const color = pct > 30 ? "#22c55e" : pct > 10 ? "#f97316" : "#ef4444";
@@ -35,6 +39,44 @@ export function FuelGauge({
           </span>
         )}
       </div>
+      {strategy && <FuelPlan strategy={strategy} />}
+    </div>
+  );
+}
+
+function FuelPlan({ strategy }: { strategy: FuelStrategy }) {
+  const short = strategy.margin < 0;
+  const { pitWindow } = strategy;
+
+  return (
+    <div className="pt-1 space-y-0.5 border-t border-border">
+      <div className="flex justify-between text-muted-foreground">
+        <span>To finish ({strategy.lapsToGo.toFixed(1)} laps)</span>
+        <span>{strategy.fuelToFinish.toFixed(1)} L</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">{short ? "Short" : "Spare"}</span>
+        <span style={{ color: short ? "#ef4444" : "#22c55e" }}>
+          {short ? "−" : "+"}
+          {Math.abs(strategy.margin).toFixed(1)} L
+        </span>
+      </div>
+      {short && strategy.stopsNeeded === 0 && (
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Save</span>
+          <span style={{ color: "#f97316" }}>{strategy.savePerLap.toFixed(2)} L/lap</span>
+        </div>
+      )}
+      {strategy.stopsNeeded > 0 && (
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">
+            {strategy.stopsNeeded} stop{strategy.stopsNeeded === 1 ? "" : "s"}
+          </span>
+          <span style={{ color: "#ef4444" }}>
+            {pitWindow ? `box lap ${pitWindow.open}–${pitWindow.close}` : "can't make it"}
+          </span>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,59 @@
+"use client";
+
+import type { ShiftAnalysis } from "@opengt/shared/types";
+
+/** Speed per gear at the redline, with the best upshift point marked and the current gear lit. */
+export function GearingChart({
+  shifts,
+  currentGear,
+}: {
+  shifts?: ShiftAnalysis;
+  currentGear?: number;
+}) {
+  const gears = shifts?.gears.filter((gear) => gear.speedAtRedline > 0) ?? [];
+  if (!shifts || gears.length === 0) {
+    return (
+      <div className="text-xs text-muted-foreground">
+        Drive a few full-throttle runs to learn the gearing
+      </div>
+    );
+  }
+
+  const top = Math.max(...gears.map((gear) => gear.speedAtRedline));
+  return (
+    <div className="space-y-1.5">
+      {gears.map((gear) => {
+        const shiftSpeed =
+          gear.shiftRpm > 0 && shifts.redline > 0
+            ? (gear.speedAtRedline * gear.shiftRpm) / shifts.redline
+            : -1;
+        return (
+          <div key={gear.gear} className="flex items-center gap-3 text-xs font-mono">
+            <span
+              className={`w-4 text-right ${gear.gear === currentGear ? "font-bold text-foreground" : "text-muted-foreground"}`}
+            >
+              {gear.gear}
+            </span>
+            <div className="relative flex-1 h-4 bg-muted/30 rounded-sm">
+              <div
+                className={`absolute inset-y-0 left-0 rounded-sm ${gear.gear === currentGear ? "bg-blue-500" : "bg-blue-500/40"}`}
+                style={{ width: `${(gear.speedAtRedline / top) * 100}%` }}
+              />
+              {shiftSpeed > 0 && (
+                <div
+                  className="absolute inset-y-[-2px] w-0.5 bg-amber-400"
+                  style={{ left: `${(shiftSpeed / top) * 100}%` }}
+                  title={`Upshift at ${Math.round(shiftSpeed)} km/h`}
+                />
+              )}
+            </div>
+            <span className="w-16 text-right">{gear.speedAtRedline} km/h</span>
+          </div>
+        );
+      })}
+      <div className="text-[10px] text-muted-foreground pt-1">
+        Bars: speed at the {shifts.redline.toLocaleString()} rpm redline · marker: best upshift
+      </div>
+    </div>
+  );
+}
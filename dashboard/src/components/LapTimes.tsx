@@ -3,17 +3,20 @@
 export function LapTimes({
   lap,
   totalLaps,
+  current,
   best,
   last,
 }: {
   lap: number;
   totalLaps: number;
+  current: string;
   best: string;
   last: string;
 }) {
   return (
     <div className="space-y-1 text-xs">
-      <div className="flex justify-end text-base">
+      <div className="flex justify-between items-baseline text-base">
+        <span className="font-mono">{current}</span>
         <span className="font-bold">
           {totalLaps > 0 ? Math.min(lap, totalLaps) : lap}
           {totalLaps > 0 ? ` / ${totalLaps}` : ""}
@@ -0,0 +1,39 @@
+"use client";
+import type { LinkQualityStats } from "@opengt/shared/types";
+
+function lossColor(pct: number): string {
+  if (pct < 1) return "#22c55e";
+  if (pct < 5) return "#f97316";
+  return "#ef4444";
+}
+
+export function LinkQuality({ stats }: { stats: LinkQualityStats | null }) {
+  if (!stats || stats.received === 0) {
+    return <div className="text-xs text-muted-foreground">No packets</div>;
+  }
+
+  return (
+    <div className="space-y-1 text-xs">
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Loss</span>
+        <span className="font-mono" style={{ color: lossColor(stats.lossPercent) }}>
+          {stats.lossPercent.toFixed(1)}%
+        </span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Rate</span>
+        <span className="font-mono">{Math.round(stats.packetRate)} Hz</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Jitter</span>
+        <span className="font-mono">{stats.jitterMs.toFixed(1)} ms</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Dup / late</span>
+        <span className="font-mono">
+          {stats.duplicates} / {stats.reordered}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { formatLapTime } from "@opengt/shared/telemetry";
+import type { SectorStatus, SectorTiming } from "@opengt/shared/types";
+
+const STATUS_COLORS: Record<SectorStatus, string | undefined> = {
+  purple: "#a855f7", // fastest this session
+  green: "#22c55e", // up on the best lap
+  yellow: "#eab308",
+  none: undefined,
+};
+
+function formatSector(ms: number): string {
+  return ms < 0 ? "--.---" : (ms / 1000).toFixed(3);
+}
+
+function formatDelta(ms: number | null): string {
+  if (ms === null) return "";
+  return `${ms > 0 ? "+" : ms < 0 ? "−" : "±"}${(Math.abs(ms) / 1000).toFixed(3)}`;
+}
+
+export function SectorTimes({
+  sectors,
+  picking,
+  onTogglePicking,
+  onAuto,
+}: {
+  sectors?: SectorTiming;
+  picking: boolean;
+  onTogglePicking: () => void;
+  onAuto: () => void;
+}) {
+  const count = sectors ? sectors.splits.length + 1 : 3;
+
+  return (
+    <div className="space-y-1 text-xs">
+      {Array.from({ length: count }, (_, i) => {
+        const status = sectors?.lastStatus[i] ?? "none";
+        return (
+          <div
+            // biome-ignore lint/suspicious/noArrayIndexKey: sectors are identified by position
+            key={i}
+            className={`flex justify-between gap-2${sectors?.current === i ? " font-bold" : ""}`}
+          >
+            <span className="text-muted-foreground w-6">S{i + 1}</span>
+            <span className="font-mono" style={{ color: STATUS_COLORS[status] }}>
+              {formatSector(sectors?.last[i] ?? -1)}
+            </span>
+            <span className="font-mono w-14 text-right" style={{ color: STATUS_COLORS[status] }}>
+              {formatDelta(sectors?.lastDelta[i] ?? null)}
+            </span>
+            <span className="font-mono text-muted-foreground">
+              {formatSector(sectors?.best[i] ?? -1)}
+            </span>
+          </div>
+        );
+      })}
+      <div className="flex justify-between pt-1">
+        <span className="text-muted-foreground">Theoretical best</span>
+        <span className="font-mono text-accent-green">
+          {formatLapTime(sectors?.theoreticalBest ?? -1)}
+        </span>
+      </div>
+      <div className="flex justify-between items-center pt-1">
+        <span className="text-muted-foreground">
+          {picking
+            ? "Click the map to add a split"
+            : sectors?.custom
+              ? `${count} custom sectors`
+              : "Automatic thirds"}
+        </span>
+        <div className="flex gap-1">
+          <button
+            type="button"
+            onClick={onTogglePicking}
+            className="px-2 py-1 rounded-md cursor-pointer text-muted-foreground hover:text-foreground hover:bg-muted/50 transition"
+          >
+            {picking ? "Done" : "Pick"}
+          </button>
+          {sectors?.custom && (
+            <button
+              type="button"
+              onClick={onAuto}
+              className="px-2 py-1 rounded-md cursor-pointer text-muted-foreground hover:text-foreground hover:bg-muted/50 transition"
+            >
+              Auto
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { formatLapTime } from "@opengt/shared/telemetry";
+import type { PitHistory } from "@opengt/shared/types";
+
+export function StintTable({ pit }: { pit?: PitHistory }) {
+  if (!pit || pit.stints.length === 0) {
+    return <div className="text-xs text-muted-foreground">No stints yet</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {pit.inPitLane && <div className="text-xs font-bold text-amber-500">In the pit lane</div>}
+      <table className="w-full text-xs font-mono">
+        <thead className="text-muted-foreground">
+          <tr>
+            <th className="text-left font-normal">Stint</th>
+            <th className="text-right font-normal">Laps</th>
+            <th className="text-right font-normal">Fuel</th>
+            <th className="text-right font-normal">Avg</th>
+            <th className="text-right font-normal">Best</th>
+          </tr>
+        </thead>
+        <tbody>
+          {pit.stints.flatMap((stint) => {
+            const row = (
+              <tr key={stint.number} className={stint.endLap < 0 ? "font-bold" : undefined}>
+                <td className="text-muted-foreground">
+                  {stint.number}{" "}
+                  <span className="font-normal">
+                    L{stint.startLap}–{stint.endLap >= 0 ? stint.endLap : ""}
+                  </span>
+                </td>
+                <td className="text-right">{stint.laps}</td>
+                <td className="text-right">{stint.fuelUsed.toFixed(1)}L</td>
+                <td className="text-right">
+                  {stint.averageLapTime > 0 ? formatLapTime(stint.averageLapTime) : "—"}
+                </td>
+                <td className="text-right">
+                  {stint.bestLapTime > 0 ? formatLapTime(stint.bestLapTime) : "—"}
+                </td>
+              </tr>
+            );
+            // The stop that ended this stint, between it and the next
+            const stop = stint.endLap >= 0 ? pit.stops[stint.number - 1] : undefined;
+            if (!stop) return [row];
+            return [
+              row,
+              <tr key={`stop-${stint.number}`} className="text-muted-foreground">
+                <td colSpan={5}>
+                  ↳ Pit {(stop.laneTime / 1000).toFixed(1)}s, stopped{" "}
+                  {(stop.stationaryTime / 1000).toFixed(1)}s
+                  {stop.fuelAdded > 0 ? ` · +${stop.fuelAdded.toFixed(1)}L` : ""}
+                  {stop.tyresChanged ? " · tyres" : ""}
+                </td>
+              </tr>,
+            ];
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,14 +1,27 @@
 "use client";
-import { type MutableRefObject, useEffect, useRef } from "react";
+import { type MouseEvent, type MutableRefObject, useEffect, useRef } from "react";
+
+interface Point {
+  x: number;
+  z: number;
+}
 
 interface Props {
-  trackPoints: MutableRefObject<{ x: number; z: number }[]>;
-  currentPos: { x: number; z: number } | null;
+  trackPoints: MutableRefObject<Point[]>;
+  currentPos: Point | null;
+  /** Sector split markers */
+  splitPoints?: Point[];
+  /** Called with the track position under a click; the map is only clickable when set */
+  onPick?: (point: Point) => void;
 }
 
-export function TrackMap({ trackPoints, currentPos }: Props) {
+export function TrackMap({ trackPoints, currentPos, splitPoints, onPick }: Props) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animRef = useRef<number>(0);
+  // The last frame's world → screen mapping, to turn clicks back into track positions
+  const viewRef = useRef<{ minX: number; minZ: number; scale: number; offX: number; offZ: number }>(
+    null,
+  );
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -52,6 +65,7 @@ export function TrackMap({ trackPoints, currentPos }: Props) {
         sx: offX + (x - minX) * scale,
         sy: offZ + (z - minZ) * scale,
       });
+      viewRef.current = { minX, minZ, scale, offX, offZ };
 
       // Draw track line
       ctx.beginPath();
@@ -65,6 +79,15 @@ export function TrackMap({ trackPoints, currentPos }: Props) {
       ctx.lineWidth = 2;
       ctx.stroke();
 
+      // Draw sector splits
+      for (const split of splitPoints ?? []) {
+        const s = toScreen(split.x, split.z);
+        ctx.beginPath();
+        ctx.arc(s.sx, s.sy, 4, 0, Math.PI * 2);
+        ctx.fillStyle = "#eab308";
+        ctx.fill();
+      }
+
       // Draw car position
       if (currentPos) {
         const c = toScreen(currentPos.x, currentPos.z);
@@ -79,14 +102,29 @@ export function TrackMap({ trackPoints, currentPos }: Props) {
 
     draw();
     return () => cancelAnimationFrame(animRef.current);
-  }, [trackPoints, currentPos]);
+  }, [trackPoints, currentPos, splitPoints]);
+
+  function handleClick(event: MouseEvent<HTMLCanvasElement>) {
+    const canvas = canvasRef.current;
+    const view = viewRef.current;
+    if (!onPick || !canvas || !view) return;
+    // The canvas is scaled to its container by CSS
+    const rect = canvas.getBoundingClientRect();
+    const sx = ((event.clientX - rect.left) / rect.width) * canvas.width;
+    const sy = ((event.clientY - rect.top) / rect.height) * canvas.height;
+    onPick({
+      x: view.minX + (sx - view.offX) / view.scale,
+      z: view.minZ + (sy - view.offZ) / view.scale,
+    });
+  }
 
   return (
     <canvas
       ref={canvasRef}
       width={300}
       height={200}
-      className="w-full h-auto rounded-md bg-muted"
+      onClick={handleClick}
+      className={`w-full h-auto rounded-md bg-muted${onPick ? " cursor-crosshair" : ""}`}
     />
   );
 }
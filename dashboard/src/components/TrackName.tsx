@@ -0,0 +1,71 @@
+"use client";
+
+import type { TrackInfo } from "@opengt/shared/types";
+import { useState } from "react";
+
+export function TrackName({
+  track,
+  onRename,
+}: {
+  track: TrackInfo | null | undefined;
+  onRename: (id: string, name: string) => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  if (!track) {
+    return (
+      <div className="text-xs text-muted-foreground mb-2">
+        Unknown track — recognised after a clean lap
+      </div>
+    );
+  }
+
+  const length = `${(track.length / 1000).toFixed(2)} km`;
+
+  if (editing) {
+    return (
+      <form
+        className="flex gap-1 mb-2 text-xs"
+        onSubmit={(e) => {
+          e.preventDefault();
+          onRename(track.id, draft);
+          setEditing(false);
+        }}
+      >
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Track name"
+          maxLength={60}
+          className="flex-1 bg-muted/50 border border-border rounded-md px-2 py-1"
+        />
+        <button
+          type="submit"
+          className="px-2 py-1 rounded-md cursor-pointer text-muted-foreground hover:text-foreground hover:bg-muted/50 transition"
+        >
+          Save
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex justify-between items-center mb-2 text-xs">
+      <span>
+        {track.name ?? <span className="text-muted-foreground">Unnamed track</span>}
+        <span className="text-muted-foreground"> · {length}</span>
+      </span>
+      <button
+        type="button"
+        onClick={() => {
+          setDraft(track.name ?? "");
+          setEditing(true);
+        }}
+        className="px-2 py-1 rounded-md cursor-pointer text-muted-foreground hover:text-foreground hover:bg-muted/50 transition"
+      >
+        {track.name ? "Rename" : "Name"}
+      </button>
+    </div>
+  );
+}
@@ -1,5 +1,10 @@
 "use client";
 
+import { LOCKUP_SLIP_RATIO, WHEELSPIN_SLIP_RATIO } from "@opengt/shared/constants";
+import type { WheelSlipCounts } from "@opengt/shared/types";
+
+type Wheel = "fl" | "fr" | "rl" | "rr";
+
 function tempColor(t: number): string {
   if (t <= 0) return "#737373";
   if (t < 60) return "#3b82f6"; // cold - blue
@@ -8,35 +13,80 @@ function tempColor(t: number): string {
   return "#ef4444"; // hot - red
 }
 
-function TyreBox({ label, temp }: { label: string; temp: number }) {
+function slipState(ratio: number): { label: string; color: string } | null {
+  if (ratio <= LOCKUP_SLIP_RATIO) return { label: "LOCK", color: "#ef4444" };
+  if (ratio >= WHEELSPIN_SLIP_RATIO) return { label: "SPIN", color: "#eab308" };
+  return null;
+}
+
+function TyreBox({
+  label,
+  temp,
+  slip,
+  lockups,
+  wheelspins,
+}: {
+  label: string;
+  temp: number;
+  slip: number;
+  lockups?: number;
+  wheelspins?: number;
+}) {
+  const state = slipState(slip);
   return (
     <div className="flex flex-col items-center">
       <span className="text-xs text-muted-foreground mb-1">{label}</span>
       <div
-        className="w-14 h-20 rounded-md flex items-center justify-center text-sm font-bold border border-border"
+        className="w-14 h-20 rounded-md flex flex-col items-center justify-center text-sm font-bold border border-border"
         style={{
           backgroundColor: `${tempColor(temp)}25`,
           color: tempColor(temp),
-          borderColor: `${tempColor(temp)}50`,
+          // Slipping wheels light up their outline
+          borderColor: state ? state.color : `${tempColor(temp)}50`,
+          borderWidth: state ? 2 : undefined,
         }}
       >
         {temp > 0 ? `${Math.round(temp)}°` : "--"}
+        {state && (
+          <span className="text-[10px]" style={{ color: state.color }}>
+            {state.label}
+          </span>
+        )}
       </div>
+      {lockups !== undefined && wheelspins !== undefined && (
+        <span className="text-[10px] text-muted-foreground mt-1 font-mono">
+          L{lockups} S{wheelspins}
+        </span>
+      )}
     </div>
   );
 }
 
 export function TyreTemps({
   temps,
+  slip = { fl: 0, fr: 0, rl: 0, rr: 0 },
+  lapSlips,
 }: {
   temps: { fl: number; fr: number; rl: number; rr: number };
+  slip?: { fl: number; fr: number; rl: number; rr: number };
+  /** Lock-ups and wheelspin this lap, shown under each tyre */
+  lapSlips?: WheelSlipCounts;
 }) {
+  const box = (wheel: Wheel) => (
+    <TyreBox
+      label={wheel.toUpperCase()}
+      temp={temps[wheel]}
+      slip={slip[wheel]}
+      lockups={lapSlips?.lockups[wheel]}
+      wheelspins={lapSlips?.wheelspins[wheel]}
+    />
+  );
   return (
     <div className="grid grid-cols-2 gap-2">
-      <TyreBox label="FL" temp={temps.fl} />
-      <TyreBox label="FR" temp={temps.fr} />
-      <TyreBox label="RL" temp={temps.rl} />
-      <TyreBox label="RR" temp={temps.rr} />
+      {box("fl")}
+      {box("fr")}
+      {box("rl")}
+      {box("rr")}
     </div>
   );
 }
@@ -16,15 +16,25 @@ function formatTime(timestamp: number): string {
 const TYPE_ICONS: Record<string, string> = {
   fuel_low: "⛽",
   fuel_estimate: "⛽",
+  fuel_save: "⛽",
+  pit_window: "🔧",
   tyre_temp_high: "🔥",
   tyre_trend: "🌡️",
   lap_delta: "⏱️",
   lap_summary: "🏁",
-  rev_limiter: "⚡",
+  shift_quality: "⚡",
+  race_start: "🚦",
   tcs_intervention: "🛞",
   asm_intervention: "🛡️",
   race_progress: "📊",
   pace_summary: "📈",
+  sector_purple: "🟣",
+  sector_green: "🟢",
+  corner_loss: "↪️",
+  lockup: "🛑",
+  wheelspin: "💨",
+  understeer: "↩️",
+  oversteer: "🌀",
   response: "🎙️",
   transcript: "💬",
 };
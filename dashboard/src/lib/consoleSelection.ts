@@ -0,0 +1,11 @@
+/** Which console this screen follows, shared by every socket on the page. null = primary. */
+const LS_CONSOLE_KEY = "opengt:consoleId";
+
+export function getStoredConsole(): string | null {
+  return localStorage.getItem(LS_CONSOLE_KEY) || null;
+}
+
+export function storeConsole(id: string | null): void {
+  if (id) localStorage.setItem(LS_CONSOLE_KEY, id);
+  else localStorage.removeItem(LS_CONSOLE_KEY);
+}
@@ -19,7 +19,8 @@ export interface EngineerSettings {
   mode: "ptk" | "always-open";
 }
 
-export function useEngineer() {
+/** Engineer session for the console this screen follows (null = primary). */
+export function useEngineer(consoleId: string | null = null) {
   const [isConnected, setIsConnected] = useState(false);
   const [isListening, setIsListening] = useState(false);
   const [messages, setMessages] = useState<EngineerMessage[]>([]);
@@ -33,6 +34,7 @@ export function useEngineer() {
   const playbackInitPromiseRef = useRef<Promise<void> | null>(null);
   const currentMessageTimerRef = useRef<NodeJS.Timeout | null>(null);
   const modeRef = useRef<"ptk" | "always-open">("ptk");
+  const consoleIdRef = useRef(consoleId);
 
   // Connect to Socket.IO for engineer events
   // biome-ignore lint/correctness/useExhaustiveDependencies: socket setup runs once on mount
@@ -40,6 +42,11 @@ export function useEngineer() {
     const socket = io("http://localhost:4401", { transports: ["websocket"] });
     socketRef.current = socket;
 
+    // Callouts come from the followed console, so this socket follows it too
+    socket.on("connect", () => {
+      socket.emit("console:follow", { id: consoleIdRef.current });
+    });
+
     socket.on("engineer:status", (status: { connected: boolean }) => {
       setIsConnected(status.connected);
     });
@@ -90,6 +97,11 @@ export function useEngineer() {
     };
   }, []);
 
+  useEffect(() => {
+    consoleIdRef.current = consoleId;
+    if (socketRef.current?.connected) socketRef.current.emit("console:follow", { id: consoleId });
+  }, [consoleId]);
+
   // Start mic capture
   const startMic = useCallback(async () => {
     try {
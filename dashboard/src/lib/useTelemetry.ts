@@ -1,31 +1,88 @@
 "use client";
-import type { TelemetryData, TelemetrySnapshot } from "@opengt/shared/types";
+import type {
+  ConsoleInfo,
+  ConsoleLinkState,
+  LinkQualityStats,
+  TelemetryData,
+  TelemetryEncoding,
+  TelemetryField,
+  TelemetrySnapshot,
+} from "@opengt/shared/types";
+import { createWireDecoder, WIRE_VERSION } from "@opengt/shared/wire";
 import { useCallback, useEffect, useRef, useState } from "react";
 import { io, type Socket } from "socket.io-client";
+import { getStoredConsole, storeConsole } from "./consoleSelection";
 
-export function useTelemetry() {
+export interface TelemetryOptions<F extends TelemetryField> {
+  /** Frames per second from the server; defaults to its broadcast rate */
+  hz?: number;
+  /** JSON only: just these fields are sent; omit for the whole packet */
+  fields?: readonly F[];
+  /** Defaults to binary; the server falls back to JSON if it speaks another wire version */
+  encoding?: TelemetryEncoding;
+}
+
+export function useTelemetry<F extends TelemetryField = TelemetryField>(
+  options: TelemetryOptions<F> = {},
+) {
   const [connected, setConnected] = useState(false);
-  const [data, setData] = useState<TelemetryData | null>(null);
+  const [data, setData] = useState<Pick<TelemetryData, F> | null>(null);
   const [snapshot, setSnapshot] = useState<TelemetrySnapshot | null>(null);
+  const [linkStats, setLinkStats] = useState<LinkQualityStats | null>(null);
+  const [consoles, setConsoles] = useState<ConsoleInfo[]>([]);
+  const [consoleState, setConsoleState] = useState<ConsoleLinkState | null>(null);
+  const [consoleId, setConsoleId] = useState<string | null>(null);
+  const consoleIdRef = useRef<string | null>(null);
   const socketRef = useRef<Socket | null>(null);
   const trackRef = useRef<{ x: number; z: number }[]>([]);
+  // Read on connect; the subscription is fixed for the lifetime of the screen
+  const optionsRef = useRef(options);
 
   useEffect(() => {
     const socket = io("http://localhost:4401", { transports: ["websocket"] });
     socketRef.current = socket;
 
-    socket.on("connect", () => setConnected(true));
+    consoleIdRef.current = getStoredConsole();
+    setConsoleId(consoleIdRef.current);
+
+    // A fresh server-side stream starts with a keyframe, so the decoder starts over too
+    let decoder = createWireDecoder();
+
+    socket.on("connect", () => {
+      setConnected(true);
+      // Rooms don't survive a reconnect — re-follow every time
+      socket.emit("console:follow", { id: consoleIdRef.current });
+      const { hz, fields, encoding = "binary" } = optionsRef.current;
+      decoder = createWireDecoder();
+      socket.emit("telemetry:subscribe", { hz, fields, encoding, version: WIRE_VERSION });
+    });
     socket.on("disconnect", () => setConnected(false));
-    socket.on("telemetry", (d: TelemetryData) => {
+    const onTelemetry = (d: Pick<TelemetryData, F>) => {
       setData(d);
-      if (d.carOnTrack && (d.position.x !== 0 || d.position.z !== 0)) {
-        trackRef.current.push({ x: d.position.x, z: d.position.z });
+      // The track map needs both fields; screens that don't subscribe to them skip it
+      const { carOnTrack, position } = d as Partial<TelemetryData>;
+      if (carOnTrack && position && (position.x !== 0 || position.z !== 0)) {
+        trackRef.current.push({ x: position.x, z: position.z });
         if (trackRef.current.length > 5000) trackRef.current.shift();
       }
+    };
+    socket.on("telemetry", onTelemetry);
+    socket.on("telemetry:bin", (frame: ArrayBuffer) => {
+      const d = decoder.decode(frame);
+      if (d) onTelemetry(d);
     });
     socket.on("telemetry:snapshot", (s: TelemetrySnapshot) => {
       setSnapshot(s);
     });
+    socket.on("link:stats", (stats: LinkQualityStats) => {
+      setLinkStats(stats);
+    });
+    socket.on("consoles:list", (list: ConsoleInfo[]) => {
+      setConsoles(list);
+    });
+    socket.on("console:state", (state: ConsoleLinkState | null) => {
+      setConsoleState(state);
+    });
 
     return () => {
       socket.disconnect();
@@ -36,5 +93,40 @@ export function useTelemetry() {
     trackRef.current = [];
   }, []);
 
-  return { connected, data, snapshot, trackPoints: trackRef, resetTrack };
+  /** Sector splits at these map positions for the followed console; null = automatic thirds */
+  const setSectorSplits = useCallback((points: { x: number; z: number }[] | null) => {
+    socketRef.current?.emit("sectors:set", { points });
+  }, []);
+
+  /** Name a recognised track; an empty name makes it unnamed again */
+  const nameTrack = useCallback((id: string, name: string) => {
+    socketRef.current?.emit("track:name", { id, name });
+  }, []);
+
+  /** Follow another console (null = primary); the track map starts over */
+  const selectConsole = useCallback((id: string | null) => {
+    consoleIdRef.current = id;
+    setConsoleId(id);
+    storeConsole(id);
+    socketRef.current?.emit("console:follow", { id });
+    trackRef.current = [];
+    setData(null);
+    setSnapshot(null);
+    setLinkStats(null);
+  }, []);
+
+  return {
+    connected,
+    data,
+    snapshot,
+    linkStats,
+    consoles,
+    consoleState,
+    consoleId,
+    selectConsole,
+    trackPoints: trackRef,
+    resetTrack,
+    setSectorSplits,
+    nameTrack,
+  };
 }
@@ -1,10 +1,32 @@
 import type {
   FourCorners,
   LapTimeTrend,
+  PitHistory,
+  SectorTiming,
+  StartReport,
   TelemetryData,
   TelemetrySnapshot,
   TempTrend,
+  TrackInfo,
 } from "@opengt/shared/types";
+import type { BestLapStore } from "./best-laps.js";
+import { createCornerAnalyzer } from "./corners.js";
+import { createDynamicsTracker, type DynamicsChannels, NO_DYNAMICS } from "./dynamics.js";
+import { planFuel } from "./fuel-strategy.js";
+import {
+  createLapDeltaTracker,
+  type LapDelta,
+  NO_LAP_DELTA,
+  type ReferenceLap,
+} from "./lap-delta.js";
+import { createPitStopDetector } from "./pit-stops.js";
+import { createStartAnalyzer } from "./race-start.js";
+import type { SectorSplitStore } from "./sector-splits.js";
+import { createSectorTimer } from "./sectors.js";
+import { createShiftAnalyzer } from "./shifts.js";
+import { createTrackModel, type MapPoint, type TrackPosition } from "./track-model.js";
+import { fingerprintTrack, type TrackDatabase } from "./tracks.js";
+import { createWheelSlipDetector } from "./wheel-slip.js";
 
 const TEMP_WINDOW_MS = 5_000;
 const TREND_THRESHOLD = 3; // °C change to count as rising/cooling
@@ -21,9 +43,43 @@ export interface TelemetryAnalyzer {
   getSnapshot(): TelemetrySnapshot;
   /** Register a callback for lap changes. */
   onLapChange(callback: () => void): void;
+  /** Where on the lap the car is; null until a reference lap is learned, or off track. */
+  getTrackPosition(): TrackPosition | null;
+  /** Which known track this is; null until a reference lap is learned. */
+  getTrack(): TrackInfo | null;
+  /** Live delta to the session and all-time best laps. */
+  getLapDelta(): LapDelta;
+  /** Slip ratio per wheel at the last packet; 0 off track. */
+  getSlipRatio(): FourCorners<number>;
+  /** G-forces, yaw rates and slip angle at the last packet; at rest off track. */
+  getDynamics(): DynamicsChannels;
+  /** Register a callback for each lock-up or wheelspin as it starts. */
+  onWheelSlip(callback: () => void): void;
+  /** Pit stops so far and the stints between them. */
+  getPitHistory(): PitHistory;
+  /** How the race started; null until the green light. */
+  getStartReport(): StartReport | null;
+  /** Register a callback for the end of the launch after the green light. */
+  onRaceStart(callback: () => void): void;
+  /** Register a callback for each timed sector. */
+  onSectorComplete(callback: () => void): void;
+  /**
+   * Split the lap at the reference path points nearest these map positions; null = automatic
+   * thirds. False until the track has been learned.
+   */
+  setSectorSplits(points: MapPoint[] | null): boolean;
 }
 
-export function createTelemetryAnalyzer(): TelemetryAnalyzer {
+export interface TelemetryAnalyzerOptions {
+  /** Where all-time best laps are kept. Without one, the delta is to the session best only. */
+  bestLaps?: BestLapStore;
+  /** Where user-picked sector splits are kept per track. */
+  sectorSplits?: SectorSplitStore;
+  /** Known tracks, to recognise this one by once its reference lap is learned. */
+  tracks?: TrackDatabase;
+}
+
+export function createTelemetryAnalyzer(options: TelemetryAnalyzerOptions = {}): TelemetryAnalyzer {
   let sessionStartedAt = 0;
   let currentLapStartedAt = 0;
   let lastLapCount = -1;
@@ -47,6 +103,43 @@ export function createTelemetryAnalyzer(): TelemetryAnalyzer {
   let nextFuelCheckIndex = 0;
   const FUEL_CHECK_TIMES_MS = [5_000, 10_000, 15_000, 20_000, 25_000, 30_000];
 
+  // Track position, learned from the first clean lap of each race
+  const track = createTrackModel();
+  let trackPosition: TrackPosition | null = null;
+  // Best laps are kept per recognised track; null until there is one
+  let trackId: string | null = null;
+
+  // Live delta, against the best laps traced on that track
+  const lapDelta = createLapDeltaTracker();
+  let allTimeBestLapTime = -1;
+
+  // Sector times, split automatically in thirds or where the user picked
+  const sectorTimer = createSectorTimer();
+  let sectorCallback: (() => void) | null = null;
+
+  // Corners, numbered from the first clean lap
+  const corners = createCornerAnalyzer();
+
+  // Lock-ups and wheelspin, placed by corner
+  const wheelSlip = createWheelSlipDetector();
+  let wheelSlipCallback: (() => void) | null = null;
+
+  // G-forces, yaw and slip angle
+  const dynamics = createDynamicsTracker();
+
+  // Shift points learned from the car, and every upshift against them
+  const shifts = createShiftAnalyzer();
+
+  // Pit stops and the stints between them
+  const pit = createPitStopDetector();
+
+  // Reaction, wheelspin and acceleration off the grid
+  const start = createStartAnalyzer();
+  let startCallback: (() => void) | null = null;
+
+  // The stored best lap and splits can only be matched once the track has been learned
+  let trackDataLoaded = false;
+
   // Tyre temp history (rolling window)
   const tempHistory: FourCorners<TempSample[]> = { fl: [], fr: [], rl: [], rr: [] };
 
@@ -77,9 +170,10 @@ export function createTelemetryAnalyzer(): TelemetryAnalyzer {
     // Best lap time reset to -1 while we had one before = new race
     if (data.bestLapTime < 0 && raceLastBestLap > 0) return true;
 
-    // Fuel went back to full while it was consumed = new race (or at least new stint)
+    // Fuel went back to full while it was consumed = new race, unless it was a refuel in the pits
     if (
       fuelUsageEnabled === true &&
+      !pit.inPitLane() &&
       data.fuelLevel >= data.fuelCapacity * 0.99 &&
       lastFuelLevel > 0 &&
       lastFuelLevel < data.fuelCapacity * 0.95
@@ -100,6 +194,19 @@ export function createTelemetryAnalyzer(): TelemetryAnalyzer {
     lastFuelLevel = -1;
     initialFuelLevel = -1;
     nextFuelCheckIndex = 0;
+    track.reset();
+    trackPosition = null;
+    trackId = null;
+    lapDelta.reset();
+    allTimeBestLapTime = -1;
+    sectorTimer.reset();
+    corners.reset();
+    wheelSlip.reset();
+    dynamics.reset();
+    shifts.reset();
+    pit.reset();
+    start.reset();
+    trackDataLoaded = false;
     resetLapCounters();
     for (const key of ["fl", "fr", "rl", "rr"] as const) {
       tempHistory[key].length = 0;
@@ -195,7 +302,10 @@ export function createTelemetryAnalyzer(): TelemetryAnalyzer {
 
     wasOnTrack = data.carOnTrack;
 
-    if (!data.carOnTrack) return;
+    if (!data.carOnTrack) {
+      trackPosition = null;
+      return;
+    }
 
     // Update race identity tracking
     raceCarCode = data.carCode;
@@ -224,12 +334,28 @@ export function createTelemetryAnalyzer(): TelemetryAnalyzer {
     lastFuelLevel = data.fuelLevel;
 
     // Lap change detection
-    if (lastLapCount >= 0 && data.lapCount !== lastLapCount) {
-      handleLapChange(data);
-      lapChangeCallback?.();
-    }
+    const lapChanged = lastLapCount >= 0 && data.lapCount !== lastLapCount;
+    if (lapChanged) handleLapChange(data);
     lastLapCount = data.lapCount;
 
+    trackPosition = track.onPacket(data);
+    const completed = updateLapDelta(data);
+    if (sectorTimer.onPacket(data.lapCount, lapDelta.progress(), completed)) sectorCallback?.();
+    corners.onPacket(data, trackPosition, lapDelta.progress(), completed);
+    const fraction = trackPosition?.fraction ?? -1;
+    const slipEvents = wheelSlip.onPacket(data, {
+      entry: fraction < 0 ? -1 : corners.cornerFor(fraction, "entry"),
+      exit: fraction < 0 ? -1 : corners.cornerFor(fraction, "exit"),
+    });
+    if (slipEvents.length > 0) wheelSlipCallback?.();
+    dynamics.onPacket(data);
+    shifts.onPacket(data, dynamics.channels().gForce.longitudinal);
+    pit.onPacket(data);
+    if (start.onPacket(data)) startCallback?.();
+    // Only once every tracker above has moved on to the new lap, so "last lap" means the one
+    // just finished
+    if (lapChanged) lapChangeCallback?.();
+
     // Per-packet accumulation
     lapPacketCount++;
     if (data.revLimiter) revLimiterCount++;
@@ -240,6 +366,64 @@ export function createTelemetryAnalyzer(): TelemetryAnalyzer {
     recordTempSample(data);
   }
 
+  /** Returns the lap the delta tracker just timed, if any. */
+  function updateLapDelta(data: TelemetryData): ReferenceLap | null {
+    if (!trackDataLoaded && track.length > 0) {
+      const fingerprint = fingerprintTrack(data.game, track);
+      if (fingerprint && options.tracks) trackId = options.tracks.identify(fingerprint).id;
+      const stored = trackId
+        ? (options.bestLaps?.find({ carCode: data.carCode, trackId }) ?? null)
+        : null;
+      lapDelta.setAllTimeBest(stored);
+      allTimeBestLapTime = stored?.lapTime ?? -1;
+      sectorTimer.setSplits(trackId ? (options.sectorSplits?.find(trackId) ?? null) : null);
+      trackDataLoaded = true;
+    }
+
+    const completed = lapDelta.onPacket(data, trackPosition);
+    // Without a track identity there's nothing to keep the best lap against
+    const key = trackId ? { carCode: data.carCode, trackId } : null;
+    if (completed && key && options.bestLaps?.offer(key, completed)) {
+      lapDelta.setAllTimeBest(completed);
+      allTimeBestLapTime = completed.lapTime;
+    }
+    return completed;
+  }
+
+  function setSectorSplits(points: MapPoint[] | null): boolean {
+    if (track.length === 0 || !latest) return false;
+    const splits = points
+      ? points.map((point) => track.fractionAt(point)).filter((f) => f !== null)
+      : null;
+    sectorTimer.setSplits(splits);
+
+    const { custom, splits: applied } = sectorTimer.state();
+    // Kept per recognised track; without one they last the session
+    if (trackId) options.sectorSplits?.save(trackId, custom ? applied : null);
+    console.log(
+      `[Analyzer] Sector splits: ${custom ? applied.map((f) => f.toFixed(3)).join(", ") : "automatic"}`,
+    );
+    return true;
+  }
+
+  function getSectorTiming(): SectorTiming {
+    const state = sectorTimer.state();
+    const splitPoints = state.splits
+      .map((split) => track.pointAt(split))
+      .filter((point) => point !== null);
+    return { ...state, splitPoints };
+  }
+
+  function getTrack(): TrackInfo | null {
+    // Looked up each time so a name given meanwhile shows
+    return trackId ? (options.tracks?.get(trackId) ?? null) : null;
+  }
+
+  function currentLapDelta(): LapDelta {
+    // Off track the last delta is stale
+    return trackPosition ? lapDelta.current() : NO_LAP_DELTA;
+  }
+
   function estimateFuelLapsRemaining(currentFuel: number, perLapBurnRate: number): number {
     // Primary: use per-lap burn rate from completed full laps
     if (perLapBurnRate > 0) {
@@ -275,6 +459,7 @@ export function createTelemetryAnalyzer(): TelemetryAnalyzer {
     const burnRate = calculateFuelBurnRate();
     const safeDivide = lapPacketCount > 0 ? lapPacketCount : 1;
     const currentFuel = d?.fuelLevel ?? 0;
+    const delta = currentLapDelta();
 
     return {
       lapCount: d?.lapCount ?? 0,
@@ -282,6 +467,18 @@ export function createTelemetryAnalyzer(): TelemetryAnalyzer {
       lastLapTime: d?.lastLapTime ?? -1,
       bestLapTime: d?.bestLapTime ?? -1,
       lapDelta: d && d.lastLapTime > 0 && d.bestLapTime > 0 ? d.lastLapTime - d.bestLapTime : 0,
+      currentLapTime: d?.currentLapTime ?? -1,
+
+      lapDistance: trackPosition?.distance ?? -1,
+      lapFraction: trackPosition?.fraction ?? -1,
+      trackLength: track.length,
+      track: getTrack(),
+      deltaToSessionBest: delta.sessionBest,
+      deltaToAllTimeBest: delta.allTimeBest,
+      predictedLapTime: delta.predictedLapTime,
+      allTimeBestLapTime,
+      sectors: getSectorTiming(),
+      corners: corners.state(),
       lapTimeTrend: getLapTimeTrend(),
       recentLapTimes: [...recentLapTimes],
 
@@ -292,6 +489,19 @@ export function createTelemetryAnalyzer(): TelemetryAnalyzer {
         ? estimateFuelLapsRemaining(currentFuel, burnRate)
         : Number.POSITIVE_INFINITY,
       fuelUsageEnabled,
+      fuelStrategy:
+        fuelUsageEnabled === true && d
+          ? planFuel({
+              lapCount: d.lapCount,
+              totalLaps: d.totalLaps,
+              // Progress through this lap: right after the line the raw position can still read
+              // as the far end of the last one
+              lapFraction: lapDelta.progress()?.fraction ?? trackPosition?.fraction ?? -1,
+              fuelLevel: currentFuel,
+              fuelCapacity: d.fuelCapacity,
+              burnRate,
+            })
+          : null,
 
       tyreTemps: d?.tyreTemp ?? { fl: 0, fr: 0, rl: 0, rr: 0 },
       tyreTempTrend: {
@@ -300,7 +510,12 @@ export function createTelemetryAnalyzer(): TelemetryAnalyzer {
         rl: getTempTrend(tempHistory.rl),
         rr: getTempTrend(tempHistory.rr),
       },
+      wheelSlip: wheelSlip.summary(),
+      dynamics: dynamics.summary(),
+      pit: pit.history(),
+      start: start.report(),
 
+      shifts: shifts.state(),
       revLimiterPercent: revLimiterCount / safeDivide,
       tcsPercent: tcsCount / safeDivide,
       asmPercent: asmCount / safeDivide,
@@ -325,5 +540,22 @@ export function createTelemetryAnalyzer(): TelemetryAnalyzer {
     onLapChange(callback: () => void) {
       lapChangeCallback = callback;
     },
+    getTrackPosition: () => trackPosition,
+    getTrack,
+    getLapDelta: currentLapDelta,
+    getSlipRatio: () => (latest?.carOnTrack ? wheelSlip.ratios() : { fl: 0, fr: 0, rl: 0, rr: 0 }),
+    getDynamics: () => (latest?.carOnTrack ? dynamics.channels() : NO_DYNAMICS),
+    getPitHistory: pit.history,
+    getStartReport: start.report,
+    onRaceStart(callback: () => void) {
+      startCallback = callback;
+    },
+    onWheelSlip(callback: () => void) {
+      wheelSlipCallback = callback;
+    },
+    onSectorComplete(callback: () => void) {
+      sectorCallback = callback;
+    },
+    setSectorSplits,
   };
 }
@@ -0,0 +1,66 @@
+import fs from "node:fs";
+import path from "node:path";
+import { formatLapTime } from "@opengt/shared/telemetry";
+import type { ReferenceLap } from "./lap-delta.js";
+
+export interface BestLapKey {
+  carCode: number;
+  trackId: string; // from the track database
+}
+
+interface StoredBestLap extends BestLapKey, ReferenceLap {
+  recordedAt: string;
+}
+
+export interface BestLapStore {
+  /** The all-time best for this car on this track, if one is stored. */
+  find(key: BestLapKey): ReferenceLap | null;
+  /** Store a lap if it beats the stored best for its car and track. Returns whether it did. */
+  offer(key: BestLapKey, lap: ReferenceLap): boolean;
+}
+
+/** All-time best laps with their traces, in data/best-laps.json. */
+export function createBestLapStore(dataDir: string): BestLapStore {
+  const filePath = path.join(dataDir, "best-laps.json");
+  let laps: StoredBestLap[] = load();
+
+  function load(): StoredBestLap[] {
+    if (!fs.existsSync(filePath)) return [];
+    try {
+      const stored = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+      return Array.isArray(stored) ? stored : [];
+    } catch {
+      return [];
+    }
+  }
+
+  function matches(lap: StoredBestLap, key: BestLapKey): boolean {
+    return lap.trackId === key.trackId && lap.carCode === key.carCode;
+  }
+
+  function find(key: BestLapKey): ReferenceLap | null {
+    const stored = laps.find((lap) => matches(lap, key));
+    return stored ? { lapTime: stored.lapTime, times: stored.times } : null;
+  }
+
+  function offer(key: BestLapKey, lap: ReferenceLap): boolean {
+    const stored = laps.find((candidate) => matches(candidate, key));
+    if (stored && stored.lapTime <= lap.lapTime) return false;
+
+    const entry: StoredBestLap = {
+      ...key,
+      lapTime: lap.lapTime,
+      times: lap.times.map(Math.round),
+      recordedAt: new Date().toISOString(),
+    };
+    laps = [...laps.filter((candidate) => candidate !== stored), entry];
+    fs.mkdirSync(dataDir, { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(laps));
+    console.log(
+      `[BestLaps] New all-time best for car ${key.carCode}: ${formatLapTime(lap.lapTime)}${stored ? ` (was ${formatLapTime(stored.lapTime)})` : ""}`,
+    );
+    return true;
+  }
+
+  return { find, offer };
+}
@@ -0,0 +1,164 @@
+import fs from "node:fs";
+import { DEFAULT_PACKET_FORMAT, PACKET_FORMATS } from "@opengt/shared/constants";
+import type { PacketFormat } from "@opengt/shared/types";
+
+/**
+ * Raw capture container — undecrypted datagrams exactly as they came off the wire.
+ *
+ * File header (16 bytes):
+ *   0x00  char[4]  "OGTC"
+ *   0x04  uint16   version
+ *   0x06  uint8    packet format at capture start (heartbeat character)
+ *   0x07  uint8    reserved
+ *   0x08  float64  capture start, epoch ms
+ *
+ * Each record (20-byte header, then the datagram bytes):
+ *   0x00  uint64   receive time, ns since capture start
+ *   0x08  uint16   datagram length
+ *   0x0a  uint16   source port
+ *   0x0c  uint8[4] source IPv4 address
+ *   0x10  uint8    packet format the datagram was sent in — it can change mid-capture
+ *   0x11  uint8[3] reserved
+ *
+ * All integers little-endian.
+ */
+
+export const CAPTURE_MAGIC = "OGTC";
+export const CAPTURE_VERSION = 1;
+export const CAPTURE_EXTENSION = ".gtcap";
+export const CAPTURE_HEADER_SIZE = 16;
+export const CAPTURE_RECORD_HEADER_SIZE = 20;
+
+export interface CaptureHeader {
+  version: number;
+  format: PacketFormat; // at capture start
+  startedAt: number; // epoch ms
+}
+
+export interface CapturedDatagram {
+  bytes: Buffer;
+  address: string;
+  port: number;
+  receivedAt: bigint; // process.hrtime.bigint() at receipt
+}
+
+export interface CaptureWriter {
+  /** Append one datagram, sent in the given packet format. */
+  write(datagram: CapturedDatagram, format: PacketFormat): void;
+  /** Flush and close the file. */
+  close(): void;
+}
+
+export interface CaptureRecord {
+  receivedAtNs: bigint; // since capture start
+  address: string;
+  port: number;
+  format: PacketFormat;
+  datagram: Buffer;
+}
+
+function formatFromCode(code: number, fallback: PacketFormat): PacketFormat {
+  const char = String.fromCharCode(code);
+  return Object.hasOwn(PACKET_FORMATS, char) ? (char as PacketFormat) : fallback;
+}
+
+export function parseCaptureHeader(buf: Buffer): CaptureHeader {
+  if (buf.length < CAPTURE_HEADER_SIZE || buf.toString("ascii", 0, 4) !== CAPTURE_MAGIC) {
+    throw new Error("Not a raw capture file");
+  }
+  const version = buf.readUInt16LE(0x04);
+  if (version > CAPTURE_VERSION) {
+    throw new Error(`Unsupported capture version ${version}`);
+  }
+  const format = formatFromCode(buf.readUInt8(0x06), DEFAULT_PACKET_FORMAT);
+  return { version, format, startedAt: buf.readDoubleLE(0x08) };
+}
+
+/** Open a capture file and write its header. Record times are relative to opening. */
+export function createCaptureWriter(filePath: string, format: PacketFormat): CaptureWriter {
+  const stream = fs.createWriteStream(filePath);
+  const origin = process.hrtime.bigint();
+
+  const header = Buffer.alloc(CAPTURE_HEADER_SIZE);
+  header.write(CAPTURE_MAGIC, 0, "ascii");
+  header.writeUInt16LE(CAPTURE_VERSION, 0x04);
+  header.writeUInt8(format.charCodeAt(0), 0x06);
+  header.writeDoubleLE(Date.now(), 0x08);
+  stream.write(header);
+
+  function write(
+    { bytes, address, port, receivedAt }: CapturedDatagram,
+    format: PacketFormat,
+  ): void {
+    const record = Buffer.alloc(CAPTURE_RECORD_HEADER_SIZE + bytes.length);
+    record.writeBigUInt64LE(receivedAt > origin ? receivedAt - origin : 0n, 0x00);
+    record.writeUInt16LE(bytes.length, 0x08);
+    record.writeUInt16LE(port, 0x0a);
+    // IPv4 only — anything else is stored as 0.0.0.0
+    const octets = address.split(".").map(Number);
+    if (octets.length === 4 && octets.every((o) => o >= 0 && o <= 255)) {
+      for (let i = 0; i < 4; i++) record.writeUInt8(octets[i], 0x0c + i);
+    }
+    record.writeUInt8(format.charCodeAt(0), 0x10);
+    bytes.copy(record, CAPTURE_RECORD_HEADER_SIZE);
+    stream.write(record);
+  }
+
+  function close(): void {
+    stream.end();
+  }
+
+  return { write, close };
+}
+
+/** Read a capture file record by record without loading it into memory. */
+export async function* readCapture(
+  filePath: string,
+): AsyncGenerator<CaptureRecord, void, undefined> {
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    const headerBuf = Buffer.alloc(CAPTURE_HEADER_SIZE);
+    await handle.read(headerBuf, 0, CAPTURE_HEADER_SIZE, 0);
+    const header = parseCaptureHeader(headerBuf);
+
+    let position = CAPTURE_HEADER_SIZE;
+    const recordHeader = Buffer.alloc(CAPTURE_RECORD_HEADER_SIZE);
+    while (true) {
+      const { bytesRead } = await handle.read(
+        recordHeader,
+        0,
+        CAPTURE_RECORD_HEADER_SIZE,
+        position,
+      );
+      if (bytesRead < CAPTURE_RECORD_HEADER_SIZE) return; // end of file or truncated record
+
+      const length = recordHeader.readUInt16LE(0x08);
+      const datagram = Buffer.alloc(length);
+      const body = await handle.read(datagram, 0, length, position + CAPTURE_RECORD_HEADER_SIZE);
+      if (body.bytesRead < length) return;
+
+      yield {
+        receivedAtNs: recordHeader.readBigUInt64LE(0x00),
+        port: recordHeader.readUInt16LE(0x0a),
+        address: Array.from(recordHeader.subarray(0x0c, 0x10)).join("."),
+        format: formatFromCode(recordHeader.readUInt8(0x10), header.format),
+        datagram,
+      };
+      position += CAPTURE_RECORD_HEADER_SIZE + length;
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+/** Read just the header of a capture file. */
+export function readCaptureHeader(filePath: string): CaptureHeader {
+  const fd = fs.openSync(filePath, "r");
+  try {
+    const buf = Buffer.alloc(CAPTURE_HEADER_SIZE);
+    fs.readSync(fd, buf, 0, CAPTURE_HEADER_SIZE, 0);
+    return parseCaptureHeader(buf);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
@@ -1,24 +1,106 @@
 import fs from "node:fs";
 import path from "node:path";
+import {
+  DEFAULT_PACKET_FORMAT,
+  GT7_RECV_PORT,
+  GT7_SEND_PORT,
+  HEARTBEAT_INTERVAL_MS,
+  PACKET_FORMATS,
+} from "@opengt/shared/constants";
+import type { ConsoleTargetConfig, PacketFormat, RelayTarget } from "@opengt/shared/types";
 import { decryptValue, encryptValue } from "./keystore.js";
 
 export interface AppConfig {
   geminiApiKey: string;
   engineerEnabled: boolean;
+  packetFormat: PacketFormat;
+  rawCaptureEnabled: boolean;
+  relayTargets: RelayTarget[];
+  consoleTarget: ConsoleTargetConfig;
 }
 
 interface StoredConfig {
   geminiApiKeyEncrypted: string;
   engineerEnabled: boolean;
+  packetFormat: PacketFormat;
+  rawCaptureEnabled: boolean;
+  relayTargets: RelayTarget[];
+  consoleTarget: ConsoleTargetConfig;
 }
 
+const DEFAULT_CONSOLE_TARGET: ConsoleTargetConfig = {
+  explicitIPs: [],
+  interfaces: [],
+  heartbeatIntervalMs: HEARTBEAT_INTERVAL_MS,
+};
+
+// The console stops streaming if heartbeats dry up, and faster than 1/s is just noise
+const MIN_HEARTBEAT_INTERVAL_MS = 1_000;
+const MAX_HEARTBEAT_INTERVAL_MS = 30_000;
+
 const DEFAULT_STORED: StoredConfig = {
   geminiApiKeyEncrypted: "",
   engineerEnabled: false,
+  packetFormat: DEFAULT_PACKET_FORMAT,
+  rawCaptureEnabled: false,
+  relayTargets: [],
+  consoleTarget: DEFAULT_CONSOLE_TARGET,
 };
 
+export function isPacketFormat(value: unknown): value is PacketFormat {
+  return typeof value === "string" && Object.hasOwn(PACKET_FORMATS, value);
+}
+
+/** Relaying onto the GT7 ports would loop straight back into the server or the console. */
+export function isRelayTarget(value: unknown): value is RelayTarget {
+  if (typeof value !== "object" || value === null) return false;
+  const { host, port, mode } = value as Partial<RelayTarget>;
+  return (
+    typeof host === "string" &&
+    host.trim().length > 0 &&
+    Number.isInteger(port) &&
+    (port as number) > 0 &&
+    (port as number) < 65536 &&
+    port !== GT7_RECV_PORT &&
+    port !== GT7_SEND_PORT &&
+    (mode === "encrypted" || mode === "decrypted")
+  );
+}
+
+const IPV4 = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+function isIPv4(value: string): boolean {
+  const match = IPV4.exec(value);
+  return !!match && match.slice(1).every((octet) => Number(octet) <= 255);
+}
+
+/** Parse a comma-separated address list, e.g. PS5_IP. Invalid entries are dropped. */
+export function parseIPList(value: string): string[] {
+  return value
+    .split(",")
+    .map((ip) => ip.trim())
+    .filter(isIPv4);
+}
+
+export function isConsoleTarget(value: unknown): value is ConsoleTargetConfig {
+  if (typeof value !== "object" || value === null) return false;
+  const { explicitIPs, interfaces, heartbeatIntervalMs } = value as Partial<ConsoleTargetConfig>;
+  return (
+    Array.isArray(explicitIPs) &&
+    explicitIPs.every((ip) => typeof ip === "string" && isIPv4(ip)) &&
+    Array.isArray(interfaces) &&
+    interfaces.every((name) => typeof name === "string") &&
+    Number.isInteger(heartbeatIntervalMs) &&
+    (heartbeatIntervalMs as number) >= MIN_HEARTBEAT_INTERVAL_MS &&
+    (heartbeatIntervalMs as number) <= MAX_HEARTBEAT_INTERVAL_MS
+  );
+}
+
 let configPath: string;
 let current: AppConfig;
+// PS5_IP overrides the console target for this run only; the file keeps what the user saved
+let envConsoleTarget: ConsoleTargetConfig | null = null;
+let storedConsoleTarget: ConsoleTargetConfig = DEFAULT_CONSOLE_TARGET;
 
 function load(): AppConfig {
   if (fs.existsSync(configPath)) {
@@ -30,18 +112,40 @@ function load(): AppConfig {
       return {
         geminiApiKey: decryptValue(raw.geminiApiKeyEncrypted),
         engineerEnabled: raw.engineerEnabled,
+        packetFormat: isPacketFormat(raw.packetFormat) ? raw.packetFormat : DEFAULT_PACKET_FORMAT,
+        rawCaptureEnabled: raw.rawCaptureEnabled,
+        relayTargets: Array.isArray(raw.relayTargets) ? raw.relayTargets.filter(isRelayTarget) : [],
+        consoleTarget: isConsoleTarget(raw.consoleTarget)
+          ? raw.consoleTarget
+          : DEFAULT_CONSOLE_TARGET,
       };
     } catch {
-      return { geminiApiKey: "", engineerEnabled: false };
+      return defaults();
     }
   }
-  return { geminiApiKey: "", engineerEnabled: false };
+  return defaults();
+}
+
+function defaults(): AppConfig {
+  return {
+    geminiApiKey: "",
+    engineerEnabled: false,
+    packetFormat: DEFAULT_PACKET_FORMAT,
+    rawCaptureEnabled: false,
+    relayTargets: [],
+    consoleTarget: DEFAULT_CONSOLE_TARGET,
+  };
 }
 
 function save(config: AppConfig): void {
+  if (config.consoleTarget !== envConsoleTarget) storedConsoleTarget = config.consoleTarget;
   const stored: StoredConfig = {
     geminiApiKeyEncrypted: encryptValue(config.geminiApiKey),
     engineerEnabled: config.engineerEnabled,
+    packetFormat: config.packetFormat,
+    rawCaptureEnabled: config.rawCaptureEnabled,
+    relayTargets: config.relayTargets,
+    consoleTarget: storedConsoleTarget,
   };
   fs.writeFileSync(configPath, JSON.stringify(stored, null, 2));
 }
@@ -51,12 +155,20 @@ export function initConfig(dataDir: string): AppConfig {
   fs.mkdirSync(dataDir, { recursive: true });
 
   current = load();
+  storedConsoleTarget = current.consoleTarget;
 
   // Env var overrides file config (for backwards compat / CI)
   if (process.env.GEMINI_API_KEY) {
     current.geminiApiKey = process.env.GEMINI_API_KEY;
     current.engineerEnabled = true;
   }
+  if (process.env.PS5_IP) {
+    envConsoleTarget = {
+      ...current.consoleTarget,
+      explicitIPs: parseIPList(process.env.PS5_IP),
+    };
+    current.consoleTarget = envConsoleTarget;
+  }
 
   return current;
 }
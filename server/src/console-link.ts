@@ -0,0 +1,84 @@
+import { HEARTBEAT_INTERVAL_MS } from "@opengt/shared/constants";
+import type { ConsoleLinkPhase, ConsoleLinkState } from "@opengt/shared/types";
+
+// The console streams at 60Hz, so a couple of seconds of silence is already abnormal
+const STALE_AFTER_MS = 2_000;
+// Two missed heartbeat rounds — it rebooted, changed address or left the network
+const MIN_LOST_AFTER_MS = 10_000;
+
+export interface ConsoleLinkTracker {
+  /** A valid packet arrived from this console. */
+  onPacket(address: string): void;
+  /** Apply packet-arrival timeouts. Call periodically. */
+  check(): void;
+  /** Consoles still worth heart-beating directly (locked or stale). */
+  addresses(): string[];
+  /** The searching state reported while no console is linked. */
+  searching(): ConsoleLinkState;
+}
+
+/**
+ * Per-console link state machine: searching → locked → stale → lost → searching.
+ * Every transition is reported through onChange.
+ */
+export function createConsoleLinkTracker(
+  onChange: (state: ConsoleLinkState) => void,
+  getHeartbeatIntervalMs: () => number = () => HEARTBEAT_INTERVAL_MS,
+): ConsoleLinkTracker {
+  const links = new Map<string, ConsoleLinkState>();
+  let searchingSince = Date.now();
+
+  function searching(): ConsoleLinkState {
+    return { phase: "searching", address: null, since: searchingSince, lastPacketAt: null };
+  }
+
+  function transition(link: ConsoleLinkState, phase: ConsoleLinkPhase, now: number): void {
+    link.phase = phase;
+    link.since = now;
+    console.log(`[GT7] Console ${link.address}: ${phase}`);
+    onChange({ ...link });
+  }
+
+  function onPacket(address: string): void {
+    const now = Date.now();
+    const link = links.get(address);
+    if (!link) {
+      const locked: ConsoleLinkState = { phase: "locked", address, since: now, lastPacketAt: now };
+      links.set(address, locked);
+      console.log(`[GT7] Console ${address}: locked`);
+      onChange({ ...locked });
+      return;
+    }
+    link.lastPacketAt = now;
+    if (link.phase === "stale") transition(link, "locked", now);
+  }
+
+  function check(): void {
+    const now = Date.now();
+    const lostAfterMs = Math.max(MIN_LOST_AFTER_MS, getHeartbeatIntervalMs() * 2);
+    let lostAny = false;
+    for (const [address, link] of links) {
+      const silentFor = now - (link.lastPacketAt ?? link.since);
+      if (silentFor >= lostAfterMs) {
+        transition(link, "lost", now);
+        links.delete(address);
+        lostAny = true;
+      } else if (silentFor >= STALE_AFTER_MS && link.phase === "locked") {
+        transition(link, "stale", now);
+      }
+    }
+
+    // Nobody left — back to broadcast discovery
+    if (lostAny && links.size === 0) {
+      searchingSince = now;
+      onChange(searching());
+    }
+  }
+
+  return {
+    onPacket,
+    check,
+    addresses: () => [...links.keys()],
+    searching,
+  };
+}
@@ -0,0 +1,151 @@
+import type { ConsoleInfo, TelemetryData, VerbosityLevel } from "@opengt/shared/types";
+import { createTelemetryAnalyzer, type TelemetryAnalyzer } from "./analyzer.js";
+import type { BestLapStore } from "./best-laps.js";
+import { type CalloutEngine, createCalloutEngine } from "./engineer/callouts.js";
+import { createLapTimer, type LapTimer } from "./lap-timer.js";
+import { createLinkQualityTracker, type LinkQualityTracker } from "./link-quality.js";
+import { createTelemetryLogger, type TelemetryLogger } from "./logger.js";
+import type { SectorSplitStore } from "./sector-splits.js";
+import type { TrackDatabase } from "./tracks.js";
+
+/** Everything that tracks one console's stream. */
+export interface ConsolePipeline {
+  readonly id: string;
+  readonly address: string | null;
+  readonly analyzer: TelemetryAnalyzer;
+  readonly logger: TelemetryLogger;
+  readonly calloutEngine: CalloutEngine;
+  readonly linkQuality: LinkQualityTracker;
+  readonly lapTimer: LapTimer;
+  latest: TelemetryData | null;
+  lastPacketAt: number;
+}
+
+export interface ConsoleRegistryOptions {
+  sessionsDir: string;
+  /** Whether new logger sessions also get a raw capture. */
+  rawCapture: () => boolean;
+  /** All-time best laps, shared by every console. */
+  bestLaps: BestLapStore;
+  /** User-picked sector splits, shared by every console. */
+  sectorSplits: SectorSplitStore;
+  /** Known tracks, shared by every console. */
+  tracks: TrackDatabase;
+  /** Called once per new pipeline, e.g. to hook lap-change callouts. */
+  onCreate(pipeline: ConsolePipeline): void;
+}
+
+export interface ConsoleRegistry {
+  /** Pipeline for a console, created on its first packet. */
+  getOrCreate(id: string, address: string | null): ConsolePipeline;
+  get(id: string): ConsolePipeline | undefined;
+  all(): ConsolePipeline[];
+  /** The console followed by clients that haven't picked one: the longest-connected. */
+  primary(): ConsolePipeline | undefined;
+  list(): ConsoleInfo[];
+  /** Applies to every pipeline, current and future. */
+  setVerbosity(level: VerbosityLevel): void;
+  /** Drop consoles silent for longer than timeoutMs, ending their logger sessions. */
+  prune(timeoutMs: number): void;
+  /** Drop one console, e.g. when its link is lost. */
+  remove(id: string): void;
+  /** Close every pipeline, e.g. when switching sources. */
+  reset(): void;
+}
+
+export function createConsoleRegistry(options: ConsoleRegistryOptions): ConsoleRegistry {
+  // Insertion order is arrival order, so the first entry is the primary console
+  const pipelines = new Map<string, ConsolePipeline>();
+  let verbosity: VerbosityLevel = 2;
+
+  function getOrCreate(id: string, address: string | null): ConsolePipeline {
+    const existing = pipelines.get(id);
+    if (existing) return existing;
+
+    const calloutEngine = createCalloutEngine();
+    calloutEngine.setVerbosity(verbosity);
+    const analyzer = createTelemetryAnalyzer({
+      bestLaps: options.bestLaps,
+      sectorSplits: options.sectorSplits,
+      tracks: options.tracks,
+    });
+    const pipeline: ConsolePipeline = {
+      id,
+      address,
+      analyzer,
+      // Session files are tagged with the console so simultaneous rigs don't collide
+      logger: createTelemetryLogger(options.sessionsDir, {
+        rawCapture: options.rawCapture,
+        label: address ? address.replace(/[.:]/g, "-") : undefined,
+        track: analyzer.getTrack,
+        pit: analyzer.getPitHistory,
+        start: analyzer.getStartReport,
+      }),
+      calloutEngine,
+      linkQuality: createLinkQualityTracker(),
+      lapTimer: createLapTimer(),
+      latest: null,
+      lastPacketAt: Date.now(),
+    };
+    pipelines.set(id, pipeline);
+    options.onCreate(pipeline);
+    console.log(
+      `[Consoles] New console: ${id}${pipelines.size > 1 ? ` (${pipelines.size} active)` : ""}`,
+    );
+    return pipeline;
+  }
+
+  function primary(): ConsolePipeline | undefined {
+    return pipelines.values().next().value;
+  }
+
+  function list(): ConsoleInfo[] {
+    const first = primary();
+    return [...pipelines.values()].map((p) => ({
+      id: p.id,
+      address: p.address,
+      game: p.latest?.game ?? null,
+      carCode: p.latest?.carCode ?? -1,
+      carOnTrack: p.latest?.carOnTrack ?? false,
+      lastPacketAt: p.lastPacketAt,
+      primary: p === first,
+    }));
+  }
+
+  function setVerbosity(level: VerbosityLevel): void {
+    verbosity = level;
+    for (const pipeline of pipelines.values()) pipeline.calloutEngine.setVerbosity(level);
+  }
+
+  function prune(timeoutMs: number): void {
+    const now = Date.now();
+    for (const [id, pipeline] of pipelines) {
+      if (now - pipeline.lastPacketAt > timeoutMs) remove(id);
+    }
+  }
+
+  function remove(id: string): void {
+    const pipeline = pipelines.get(id);
+    if (!pipeline) return;
+    pipeline.logger.close();
+    pipelines.delete(id);
+    console.log(`[Consoles] Console gone: ${id}`);
+  }
+
+  function reset(): void {
+    for (const pipeline of pipelines.values()) pipeline.logger.close();
+    pipelines.clear();
+  }
+
+  return {
+    getOrCreate,
+    get: (id) => pipelines.get(id),
+    all: () => [...pipelines.values()],
+    primary,
+    list,
+    setVerbosity,
+    prune,
+    remove,
+    reset,
+  };
+}
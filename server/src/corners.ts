@@ -0,0 +1,256 @@
+import type { CornerAnalysis, CornerPass, TelemetryData } from "@opengt/shared/types";
+import type { LapProgress, ReferenceLap } from "./lap-delta.js";
+import type { TrackPosition } from "./track-model.js";
+
+const BRAKE_ON = 10; // % pedal
+const YAW_ON = 0.2; // rad/s, turning in
+const YAW_OFF = 0.1; // rad/s, straight again — a flat-out kink stays under this
+const MIN_ENTRY_SPEED = 40; // km/h; slower than this it's the pit lane or a spin
+// Braking this long before any turn-in was for something else, e.g. a slow car
+const TURN_IN_WINDOW_MS = 2_000;
+// Straight for this long before the corner is over, so a chicane's flick doesn't split it
+const EXIT_HOLD_MS = 300;
+
+/** Where a corner lies on the lap, as lap fractions. */
+interface CornerSpan {
+  start: number;
+  end: number;
+}
+
+/** The corner being driven, from the braking point (or turn-in) on. */
+interface ActiveCorner {
+  start: LapProgress;
+  brakingPoint: number;
+  entrySpeed: number;
+  minSpeed: number;
+  gear: number;
+  turnedIn: boolean;
+  lastBrakingAt: number; // ms into the lap
+  straightSince: { progress: LapProgress; speed: number } | null;
+}
+
+export interface CornerAnalyzer {
+  /**
+   * Feed every on-track packet with the track position, lap progress and, when the lap
+   * delta just timed one, the completed lap. Returns the corner pass finished at this packet.
+   */
+  onPacket(
+    data: TelemetryData,
+    position: TrackPosition | null,
+    progress: LapProgress | null,
+    completed: ReferenceLap | null,
+  ): CornerPass | null;
+  state(): CornerAnalysis;
+  /**
+   * The corner at a lap fraction: the one it's in, else the next one ahead ("entry") or the
+   * last one behind ("exit"). -1 until the corners are known.
+   */
+  cornerFor(fraction: number, phase: "entry" | "exit"): number;
+  /** Forget the corners and every pass, e.g. for a new race. */
+  reset(): void;
+}
+
+function overlap(a: CornerSpan, b: CornerSpan): number {
+  return Math.min(a.end, b.end) - Math.max(a.start, b.start);
+}
+
+/**
+ * Splits each lap into corners — a braking zone and the turn that follows, by brake pressure
+ * and yaw rate — and measures every pass. The first clean lap fixes where the corners are,
+ * so later laps are numbered the same way.
+ */
+export function createCornerAnalyzer(): CornerAnalyzer {
+  let corners: CornerSpan[] = [];
+  let last: (CornerPass | null)[] = [];
+  let lastDelta: CornerAnalysis["lastDelta"] = [];
+  let reference: (CornerPass | null)[] = [];
+  let referenceLapTime = Number.POSITIVE_INFINITY;
+
+  let active: ActiveCorner | null = null;
+  let lastLapCount = -1;
+  let lastFraction = -1;
+  // Corners of the lap in progress, and of the lap just finished until its time is official
+  let lapPasses: { span: CornerSpan; pass: CornerPass }[] = [];
+  let finishing: { span: CornerSpan; pass: CornerPass }[] | null = null;
+
+  function cornerAt(span: CornerSpan): number {
+    let best = -1;
+    let bestOverlap = 0;
+    corners.forEach((corner, i) => {
+      const shared = overlap(corner, span);
+      if (shared > bestOverlap) {
+        best = i;
+        bestOverlap = shared;
+      }
+    });
+    return best;
+  }
+
+  function containing(fraction: number): number {
+    return corners.findIndex((corner) => corner.start <= fraction && fraction <= corner.end);
+  }
+
+  function record(index: number, pass: CornerPass): void {
+    const ref = reference[index];
+    last[index] = pass;
+    lastDelta[index] = ref
+      ? { time: pass.time - ref.time, minSpeed: pass.minSpeed - ref.minSpeed }
+      : null;
+  }
+
+  function finish(
+    corner: ActiveCorner,
+    exit: LapProgress,
+    exitSpeed: number,
+    lap: number,
+  ): CornerPass | null {
+    const span = { start: corner.start.fraction, end: exit.fraction };
+    const pass: CornerPass = {
+      lap,
+      brakingPoint: corner.brakingPoint,
+      entrySpeed: Math.round(corner.entrySpeed),
+      minSpeed: Math.round(corner.minSpeed),
+      exitSpeed: Math.round(exitSpeed),
+      gear: corner.gear,
+      time: Math.round(exit.time - corner.start.time),
+    };
+    lapPasses.push({ span, pass });
+    if (corners.length === 0) return null;
+    const index = cornerAt(span);
+    if (index < 0) return null;
+    record(index, pass);
+    return pass;
+  }
+
+  function onLapComplete(lapTime: number, passes: { span: CornerSpan; pass: CornerPass }[]): void {
+    if (corners.length === 0) {
+      // The first clean lap draws the corner map
+      if (passes.length === 0) return;
+      corners = passes.map(({ span }) => span);
+      last = passes.map(({ pass }) => pass);
+      lastDelta = passes.map(() => null);
+      reference = [...last];
+      referenceLapTime = lapTime;
+      console.log(`[Corners] ${corners.length} corners found`);
+      return;
+    }
+    if (lapTime >= referenceLapTime) return;
+    const next: (CornerPass | null)[] = corners.map(() => null);
+    for (const { span, pass } of passes) {
+      const index = cornerAt(span);
+      if (index >= 0) next[index] = pass;
+    }
+    reference = next;
+    referenceLapTime = lapTime;
+  }
+
+  function onPacket(
+    data: TelemetryData,
+    position: TrackPosition | null,
+    progress: LapProgress | null,
+    completed: ReferenceLap | null,
+  ): CornerPass | null {
+    if (data.lapCount !== lastLapCount) {
+      // A corner across the line can't be timed: the lap clock restarts mid-corner
+      finishing = lastLapCount >= 0 ? lapPasses : null;
+      lapPasses = [];
+      active = null;
+      lastLapCount = data.lapCount;
+    }
+    if (completed && finishing) {
+      onLapComplete(completed.lapTime, finishing);
+      finishing = null;
+    }
+
+    if (!position || !progress || progress.time < (active?.start.time ?? 0)) {
+      active = null;
+      lastFraction = -1;
+      return null;
+    }
+    lastFraction = progress.fraction;
+
+    const yaw = Math.abs(data.angularVelocity.y);
+    const braking = data.brake >= BRAKE_ON;
+    let passed: CornerPass | null = null;
+
+    // Braking again after the turn ends this corner; the next one starts here
+    if (active?.straightSince && braking) {
+      const { progress: exit, speed } = active.straightSince;
+      passed = finish(active, exit, speed, data.lapCount);
+      active = null;
+    }
+
+    if (!active) {
+      if (data.speed < MIN_ENTRY_SPEED || !(braking || yaw >= YAW_ON)) return passed;
+      active = {
+        start: progress,
+        brakingPoint: braking ? Math.round(position.distance) : -1,
+        entrySpeed: data.speed,
+        minSpeed: data.speed,
+        gear: data.currentGear,
+        turnedIn: !braking,
+        lastBrakingAt: progress.time,
+        straightSince: null,
+      };
+      return passed;
+    }
+
+    if (data.speed < active.minSpeed) {
+      active.minSpeed = data.speed;
+      active.gear = data.currentGear;
+    }
+    if (braking) active.lastBrakingAt = progress.time;
+
+    if (!active.turnedIn) {
+      if (yaw >= YAW_ON) active.turnedIn = true;
+      else if (progress.time - active.lastBrakingAt > TURN_IN_WINDOW_MS) active = null;
+      return passed;
+    }
+
+    if (yaw >= YAW_OFF) {
+      active.straightSince = null;
+    } else if (!active.straightSince) {
+      active.straightSince = { progress, speed: data.speed };
+    } else if (progress.time - active.straightSince.progress.time >= EXIT_HOLD_MS) {
+      const { progress: exit, speed } = active.straightSince;
+      passed = finish(active, exit, speed, data.lapCount);
+      active = null;
+    }
+    return passed;
+  }
+
+  function state(): CornerAnalysis {
+    return {
+      count: corners.length,
+      current: lastFraction < 0 ? -1 : containing(lastFraction),
+      last: [...last],
+      reference: [...reference],
+      lastDelta: [...lastDelta],
+    };
+  }
+
+  function cornerFor(fraction: number, phase: "entry" | "exit"): number {
+    if (corners.length === 0) return -1;
+    const inside = containing(fraction);
+    if (inside >= 0) return inside;
+    // Corners are in lap order; past the last one, the next is the first of the lap
+    const ahead = corners.findIndex((corner) => corner.start > fraction);
+    if (phase === "entry") return ahead >= 0 ? ahead : 0;
+    return ahead > 0 ? ahead - 1 : corners.length - 1;
+  }
+
+  function reset(): void {
+    corners = [];
+    last = [];
+    lastDelta = [];
+    reference = [];
+    referenceLapTime = Number.POSITIVE_INFINITY;
+    active = null;
+    lastLapCount = -1;
+    lastFraction = -1;
+    lapPasses = [];
+    finishing = null;
+  }
+
+  return { onPacket, state, cornerFor, reset };
+}
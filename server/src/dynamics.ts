@@ -0,0 +1,240 @@
+import { CONSOLE_PACKET_HZ } from "@opengt/shared/constants";
+import type {
+  DynamicsLap,
+  DynamicsSummary,
+  HandlingBalance,
+  TelemetryData,
+} from "@opengt/shared/types";
+
+const G = 9.81;
+const TICK_S = 1 / CONSOLE_PACKET_HZ;
+// A packet gap longer than this breaks the velocity differencing and slip integration; start over
+const MAX_GAP_TICKS = 10;
+// Accelerations from differencing are noisy at 60Hz; this much of each new value is kept
+const SMOOTHING = 0.2;
+const MIN_SPEED_MS = 3; // slower than this, the direction of travel is mostly noise
+// Slip angle comes from integrating yaw against the path, so it drifts; it leaks back to 0
+const SLIP_DECAY_S = 2;
+const MAX_SLIP_DEG = 90;
+// Nominal wheelbase for the expected yaw rate; GT7 doesn't send the car's
+const WHEELBASE_M = 2.7;
+// Cornering: turning at least this fast, above this speed
+const CORNERING_YAW = 0.1; // rad/s
+const CORNERING_SPEED_MS = 40 / 3.6;
+// Yaw rate against what's expected: under this share understeer, over this oversteer
+const UNDERSTEER_RATIO = 0.85;
+const OVERSTEER_RATIO = 1.15;
+const OVERSTEER_SLIP_DEG = 8;
+
+export type DynamicsChannels = Pick<
+  TelemetryData,
+  "gForce" | "yawRate" | "expectedYawRate" | "slipAngle"
+>;
+
+/** Standing still, level. */
+export const NO_DYNAMICS: DynamicsChannels = {
+  gForce: { lateral: 0, longitudinal: 0, vertical: 1 },
+  yawRate: 0,
+  expectedYawRate: 0,
+  slipAngle: 0,
+};
+
+export interface DynamicsTracker {
+  /** Feed every on-track packet. */
+  onPacket(data: TelemetryData): void;
+  /** The derived channels at the last packet. */
+  channels(): DynamicsChannels;
+  summary(): DynamicsSummary;
+  /** Forget every lap, e.g. for a new race. */
+  reset(): void;
+}
+
+function noLap(): DynamicsLap {
+  return {
+    peakLateralG: 0,
+    peakBrakingG: 0,
+    peakAccelerationG: 0,
+    understeerShare: 0,
+    oversteerShare: 0,
+    maxSlipAngle: 0,
+  };
+}
+
+function round(value: number, digits: number): number {
+  const scale = 10 ** digits;
+  return Math.round(value * scale) / scale;
+}
+
+/**
+ * G-forces in the car's frame, yaw rate against the yaw rate the steering asks for, and body
+ * slip angle. Packet "B" and "~" measure the accelerations (sway, surge, heave); packet "A" only
+ * has world-frame velocity, so there they come from its change between packets: split along
+ * and across the direction of travel, then turned by the slip angle into the car's frame. The
+ * slip angle is how far the car has rotated beyond the turn of its path — yaw rate minus the
+ * path's rate of turn, integrated.
+ */
+export function createDynamicsTracker(): DynamicsTracker {
+  let current = NO_DYNAMICS;
+  let balance: HandlingBalance = "neutral";
+  let previous: { packetId: number; velocity: TelemetryData["velocity"] } | null = null;
+  // Along the path (smoothed when differenced): + = forward / turning with positive yaw / up
+  let along = 0;
+  let across = 0;
+  let vertical = 0;
+  let slip = 0; // radians
+
+  let lapCount = -1;
+  let lap = noLap();
+  let lastLap = noLap();
+  let corneringTicks = 0;
+  let understeerTicks = 0;
+  let oversteerTicks = 0;
+
+  function expectedYaw(data: TelemetryData, speed: number, pathRate: number): number {
+    // Packet "B" and "~" carry the steering angle: a kinematic bicycle model at this speed.
+    // Otherwise the path's own rate of turn, against which only oversteer shows.
+    if (data.wheelRotation === undefined) return pathRate;
+    const rate = (speed * Math.tan(Math.abs(data.wheelRotation))) / WHEELBASE_M;
+    return Math.sign(pathRate) * rate;
+  }
+
+  function classify(yawRate: number, expected: number, speed: number): HandlingBalance {
+    if (speed < CORNERING_SPEED_MS || Math.abs(expected) < CORNERING_YAW) return "neutral";
+    const ratio = (yawRate * Math.sign(expected)) / Math.abs(expected);
+    if (ratio > OVERSTEER_RATIO || Math.abs(slip) * (180 / Math.PI) > OVERSTEER_SLIP_DEG) {
+      return "oversteer";
+    }
+    if (ratio < UNDERSTEER_RATIO) return "understeer";
+    return "neutral";
+  }
+
+  function recordLap(speed: number, expected: number): void {
+    const { lateral, longitudinal } = current.gForce;
+    lap.peakLateralG = Math.max(lap.peakLateralG, Math.abs(lateral));
+    lap.peakBrakingG = Math.max(lap.peakBrakingG, -longitudinal);
+    lap.peakAccelerationG = Math.max(lap.peakAccelerationG, longitudinal);
+    lap.maxSlipAngle = Math.max(lap.maxSlipAngle, Math.abs(current.slipAngle));
+    if (speed < CORNERING_SPEED_MS || Math.abs(expected) < CORNERING_YAW) return;
+    corneringTicks++;
+    if (balance === "understeer") understeerTicks++;
+    if (balance === "oversteer") oversteerTicks++;
+    lap.understeerShare = understeerTicks / corneringTicks;
+    lap.oversteerShare = oversteerTicks / corneringTicks;
+  }
+
+  function onPacket(data: TelemetryData): void {
+    if (data.lapCount !== lapCount) {
+      if (lapCount >= 0) lastLap = lap;
+      lap = noLap();
+      corneringTicks = 0;
+      understeerTicks = 0;
+      oversteerTicks = 0;
+      lapCount = data.lapCount;
+    }
+
+    const velocity = data.velocity;
+    const gap = previous ? data.packetId - previous.packetId : 0;
+    const last = previous;
+    previous = { packetId: data.packetId, velocity: { ...velocity } };
+    if (!last || gap <= 0 || gap > MAX_GAP_TICKS || data.paused || data.loading) return;
+
+    const dt = gap * TICK_S;
+    const speed = Math.hypot(velocity.x, velocity.z);
+    const yawRate = data.angularVelocity.y;
+    const moving = speed >= MIN_SPEED_MS;
+    // Packet "B" and "~" carry the body's own accelerations (m/s², car frame)
+    const measured =
+      data.sway !== undefined && data.surge !== undefined && data.heave !== undefined
+        ? { lateral: data.sway, longitudinal: data.surge, vertical: data.heave }
+        : null;
+
+    if (measured) {
+      // Back onto the path by the slip angle so far, for the path's rate of turn
+      const cos = Math.cos(slip);
+      const sin = Math.sin(slip);
+      across = measured.lateral * cos + measured.longitudinal * sin;
+      along = measured.longitudinal * cos - measured.lateral * sin;
+      vertical = measured.vertical;
+    } else {
+      const ax = (velocity.x - last.velocity.x) / dt;
+      const ay = (velocity.y - last.velocity.y) / dt;
+      const az = (velocity.z - last.velocity.z) / dt;
+      if (moving) {
+        const tx = velocity.x / speed;
+        const tz = velocity.z / speed;
+        along += (ax * tx + az * tz - along) * SMOOTHING;
+        // Across the path, signed to turn the same way as the yaw rate
+        across += (az * tx - ax * tz - across) * SMOOTHING;
+      } else {
+        along += (0 - along) * SMOOTHING;
+        across += (0 - across) * SMOOTHING;
+      }
+      vertical += (ay - vertical) * SMOOTHING;
+    }
+
+    let pathRate = 0;
+    if (moving) {
+      pathRate = across / speed;
+      slip += (yawRate - pathRate) * dt - (slip * dt) / SLIP_DECAY_S;
+      const limit = MAX_SLIP_DEG * (Math.PI / 180);
+      slip = Math.max(-limit, Math.min(limit, slip));
+    } else {
+      slip = 0;
+    }
+
+    // Into the car's frame, which points slip radians further round than the path
+    const cos = Math.cos(slip);
+    const sin = Math.sin(slip);
+    const lateral = measured ? measured.lateral : across * cos - along * sin;
+    const longitudinal = measured ? measured.longitudinal : along * cos + across * sin;
+    const expected = expectedYaw(data, speed, pathRate);
+    current = {
+      gForce: {
+        lateral: round(lateral / G, 3),
+        longitudinal: round(longitudinal / G, 3),
+        vertical: round(1 + vertical / G, 3),
+      },
+      yawRate,
+      expectedYawRate: round(expected, 4),
+      slipAngle: round(slip * (180 / Math.PI), 2),
+    };
+    balance = classify(yawRate, expected, speed);
+    recordLap(speed, expected);
+  }
+
+  function summary(): DynamicsSummary {
+    const rounded = (stats: DynamicsLap): DynamicsLap => ({
+      peakLateralG: round(stats.peakLateralG, 2),
+      peakBrakingG: round(stats.peakBrakingG, 2),
+      peakAccelerationG: round(stats.peakAccelerationG, 2),
+      understeerShare: round(stats.understeerShare, 3),
+      oversteerShare: round(stats.oversteerShare, 3),
+      maxSlipAngle: round(stats.maxSlipAngle, 1),
+    });
+    return {
+      gForce: { ...current.gForce },
+      slipAngle: current.slipAngle,
+      balance,
+      lap: rounded(lap),
+      lastLap: rounded(lastLap),
+    };
+  }
+
+  function reset(): void {
+    current = NO_DYNAMICS;
+    balance = "neutral";
+    previous = null;
+    along = 0;
+    across = 0;
+    vertical = 0;
+    slip = 0;
+    lapCount = -1;
+    lap = noLap();
+    lastLap = noLap();
+    corneringTicks = 0;
+    understeerTicks = 0;
+    oversteerTicks = 0;
+  }
+
+  return { onPacket, channels: () => current, summary, reset };
+}
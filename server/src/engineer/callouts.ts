@@ -30,6 +30,12 @@ export interface CalloutEngine {
   evaluate(snapshot: TelemetrySnapshot): Callout[];
   /** Called when a new lap starts. Returns lap-triggered callouts. */
   onLapComplete(snapshot: TelemetrySnapshot): Callout[];
+  /** Called when a sector is timed. Returns sector-triggered callouts. */
+  onSectorComplete(snapshot: TelemetrySnapshot): Callout[];
+  /** Called when a lock-up or wheelspin starts. Returns wheel-slip callouts. */
+  onWheelSlip(snapshot: TelemetrySnapshot): Callout[];
+  /** Called when the launch off the grid is over. Returns the start verdict. */
+  onRaceStart(snapshot: TelemetrySnapshot): Callout[];
   /** Update verbosity level */
   setVerbosity(level: VerbosityLevel): void;
 }
@@ -42,6 +48,12 @@ function formatLapTime(ms: number): string {
   return `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}.${millis.toString().padStart(3, "0")}`;
 }
 
+const ORDINALS = ["first", "second", "third", "fourth", "fifth", "sixth", "seventh", "eighth"];
+
+function ordinal(n: number): string {
+  return ORDINALS[n - 1] ?? `${n}th`;
+}
+
 function formatDelta(ms: number): string {
   const sign = ms >= 0 ? "+" : "-";
   const abs = Math.abs(ms);
@@ -124,6 +136,59 @@ const lapRules: CalloutRule[] = [
       };
     },
   },
+  {
+    type: "corner_loss",
+    priority: "normal",
+    minVerbosity: 2,
+    cooldownMs: 0,
+    evaluate(s) {
+      // The corner of the lap just finished that lost the most against the best lap
+      const { last, lastDelta } = s.corners;
+      let worst = -1;
+      lastDelta.forEach((delta, i) => {
+        if (!delta || last[i]?.lap !== s.lapCount - 1) return;
+        if (worst < 0 || delta.time > (lastDelta[worst]?.time ?? 0)) worst = i;
+      });
+      const delta = worst >= 0 ? lastDelta[worst] : null;
+      const slower =
+        delta && delta.minSpeed <= -3 ? ` — min speed down ${-delta.minSpeed} km/h` : "";
+      return {
+        fire: !!delta && delta.time > 150,
+        data: { turn: worst + 1, timeLost: delta?.time, minSpeedDelta: delta?.minSpeed },
+        message: delta
+          ? `Turn ${worst + 1} cost you ${(delta.time / 1000).toFixed(2)}s against your best lap${slower}.`
+          : "",
+      };
+    },
+  },
+  {
+    type: "oversteer",
+    priority: "normal",
+    minVerbosity: 2,
+    cooldownMs: 0,
+    evaluate(s) {
+      const { oversteerShare, maxSlipAngle } = s.dynamics.lastLap;
+      return {
+        fire: oversteerShare > 0.15 || maxSlipAngle > 12,
+        data: { oversteerShare, maxSlipAngle },
+        message: `Rear stepping out through ${Math.round(oversteerShare * 100)}% of the corners last lap, up to ${Math.round(maxSlipAngle)}° of slip. Smoother on the throttle.`,
+      };
+    },
+  },
+  {
+    type: "understeer",
+    priority: "info",
+    minVerbosity: 3,
+    cooldownMs: 0,
+    evaluate(s) {
+      const { understeerShare } = s.dynamics.lastLap;
+      return {
+        fire: understeerShare > 0.3,
+        data: { understeerShare },
+        message: `Understeering through ${Math.round(understeerShare * 100)}% of the corners last lap. Slow the entry a touch.`,
+      };
+    },
+  },
   {
     type: "lap_summary",
     priority: "info",
@@ -151,28 +216,90 @@ const lapRules: CalloutRule[] = [
     cooldownMs: 0,
     evaluate(s) {
       const hasData = s.fuelUsageEnabled && s.fuelBurnRate > 0;
+      // Short of the flag, fuel_save or pit_window says what to do about it instead
+      const strategy = s.fuelStrategy;
+      const spare = strategy
+        ? ` Enough to finish with ${strategy.margin.toFixed(1)} L to spare.`
+        : "";
       return {
-        fire: hasData,
+        fire: hasData && !(strategy && strategy.margin < 0),
         data: {
           burnRate: s.fuelBurnRate,
           estimatedLaps: s.estimatedLapsRemaining,
           fuelLevel: s.fuelLevel,
+          margin: strategy?.margin,
         },
-        message: `Fuel for approximately ${s.estimatedLapsRemaining.toFixed(1)} laps at current pace.`,
+        message: `Fuel for approximately ${s.estimatedLapsRemaining.toFixed(1)} laps at current pace.${spare}`,
       };
     },
   },
   {
-    type: "rev_limiter",
+    type: "fuel_save",
     priority: "normal",
     minVerbosity: 2,
     cooldownMs: 0,
     evaluate(s) {
-      const fire = s.revLimiterPercent > 0.15;
+      const strategy = s.fuelStrategy;
+      return {
+        fire: !!strategy && strategy.savePerLap > 0 && strategy.stopsNeeded === 0,
+        data: {
+          savePerLap: strategy?.savePerLap,
+          shortBy: strategy ? -strategy.margin : 0,
+          lapsToGo: strategy?.lapsToGo,
+        },
+        message: strategy
+          ? `You need to save ${strategy.savePerLap.toFixed(2)} L a lap to make the finish.`
+          : "",
+      };
+    },
+  },
+  {
+    type: "pit_window",
+    priority: "critical",
+    minVerbosity: 1,
+    cooldownMs: 0,
+    evaluate(s) {
+      const window = s.fuelStrategy?.pitWindow;
+      // Once when it opens, and on the last lap it's open
+      const fire = !!window && (s.lapCount === window.open || s.lapCount === window.close);
       return {
         fire,
-        data: { percent: s.revLimiterPercent },
-        message: `Hitting the rev limiter ${Math.round(s.revLimiterPercent * 100)}% of this lap. Shift earlier.`,
+        data: {
+          open: window?.open,
+          close: window?.close,
+          stopsNeeded: s.fuelStrategy?.stopsNeeded,
+          shortBy: s.fuelStrategy ? -s.fuelStrategy.margin : 0,
+        },
+        message: window
+          ? s.lapCount === window.close
+            ? "Box this lap, box this lap — not enough fuel for another."
+            : `Pit window open — box by the end of lap ${window.close}.`
+          : "",
+      };
+    },
+  },
+  {
+    type: "shift_quality",
+    priority: "normal",
+    minVerbosity: 2,
+    cooldownMs: 0,
+    evaluate(s) {
+      const quality = s.shifts.lastLap;
+      const judged = quality.good + quality.early + quality.late + quality.limiter;
+      const faults = [
+        { count: quality.limiter, say: "off the limiter" },
+        { count: quality.early, say: "early" },
+        { count: quality.late, say: "late" },
+      ].sort((a, b) => b.count - a.count);
+      const worst = s.shifts.gears.find((gear) => gear.gear === quality.worstGear);
+      const advice =
+        worst && worst.shiftRpm > 0
+          ? ` Shift out of ${ordinal(worst.gear)} at ${worst.shiftRpm.toLocaleString("en-US")} rpm.`
+          : "";
+      return {
+        fire: judged >= 3 && quality.score < 0.7,
+        data: { ...quality, shiftRpm: worst?.shiftRpm },
+        message: `${judged - quality.good} of ${judged} upshifts off the mark last lap, mostly ${faults[0].say}.${advice}`,
       };
     },
   },
@@ -239,6 +366,128 @@ const lapRules: CalloutRule[] = [
   },
 ];
 
+// --- Sector rules (evaluated once per timed sector) ---
+
+const sectorRules: CalloutRule[] = [
+  {
+    type: "sector_purple",
+    priority: "normal",
+    minVerbosity: 2,
+    cooldownMs: 0,
+    evaluate(s) {
+      const sector = s.sectors.lastCompleted;
+      const delta = sector ? s.sectors.lastDelta[sector.sector] : null;
+      return {
+        fire: sector?.status === "purple",
+        data: { sector: (sector?.sector ?? 0) + 1, time: sector?.time, delta },
+        message: sector
+          ? `Purple sector ${sector.sector + 1}, ${(sector.time / 1000).toFixed(3)}${delta !== null ? `, ${formatDelta(delta)}` : ""}.`
+          : "",
+      };
+    },
+  },
+  {
+    type: "sector_green",
+    priority: "info",
+    minVerbosity: 3,
+    cooldownMs: 0,
+    evaluate(s) {
+      const sector = s.sectors.lastCompleted;
+      return {
+        fire: sector?.status === "green",
+        data: { sector: (sector?.sector ?? 0) + 1, time: sector?.time },
+        message: sector ? `Green sector ${sector.sector + 1}, up on your best lap there.` : "",
+      };
+    },
+  },
+];
+
+// --- Wheel-slip rules (evaluated as each lock-up or wheelspin starts) ---
+
+const WHEEL_NAMES = { fl: "front left", fr: "front right", rl: "rear left", rr: "rear right" };
+
+const wheelSlipRules: CalloutRule[] = [
+  {
+    type: "lockup",
+    priority: "normal",
+    minVerbosity: 2,
+    cooldownMs: 20_000,
+    evaluate(s) {
+      const event = s.wheelSlip.lastEvent;
+      const turn = event && event.corner >= 0 ? ` into turn ${event.corner + 1}` : "";
+      return {
+        fire: event?.kind === "lockup",
+        data: { wheel: event?.wheel, turn: event ? event.corner + 1 : 0 },
+        message: event ? `Locking the ${WHEEL_NAMES[event.wheel]}${turn}.` : "",
+      };
+    },
+  },
+  {
+    type: "wheelspin",
+    priority: "info",
+    minVerbosity: 3,
+    cooldownMs: 20_000,
+    evaluate(s) {
+      const event = s.wheelSlip.lastEvent;
+      const turn = event && event.corner >= 0 ? ` out of turn ${event.corner + 1}` : "";
+      return {
+        fire: event?.kind === "wheelspin",
+        data: { wheel: event?.wheel, turn: event ? event.corner + 1 : 0 },
+        message: event ? `Wheelspin on the ${WHEEL_NAMES[event.wheel]}${turn}.` : "",
+      };
+    },
+  },
+];
+
+// --- Race start rules (evaluated once the launch off the grid is over) ---
+
+// Slower than this to react, or spinning the wheels for longer, and the start gets called out
+const SLOW_REACTION_MS = 500;
+const LAUNCH_WHEELSPIN_MS = 400;
+
+function seconds(ms: number): string {
+  return `${(ms / 1000).toFixed(ms < 1000 ? 2 : 1)} seconds`;
+}
+
+const startRules: CalloutRule[] = [
+  {
+    type: "race_start",
+    priority: "normal",
+    minVerbosity: 2,
+    cooldownMs: 0,
+    evaluate(s) {
+      const start = s.start;
+      if (!start?.complete) return { fire: false, data: {}, message: "" };
+      const slow = start.reactionTime > SLOW_REACTION_MS;
+      const spin = start.wheelspinTime > LAUNCH_WHEELSPIN_MS;
+
+      const details: string[] = [];
+      if (start.reactionTime >= 0) details.push(`${seconds(start.reactionTime)} to react`);
+      details.push(
+        start.wheelspinTime > 0 ? `${seconds(start.wheelspinTime)} of wheelspin` : "no wheelspin",
+      );
+      if (start.zeroTo100 > 0) details.push(`nought to a hundred in ${seconds(start.zeroTo100)}`);
+
+      const standing = start.kind === "standing";
+      let verdict = standing ? "Good start" : "Good jump at the green";
+      if (slow && spin) verdict = "Messy start";
+      else if (slow) verdict = standing ? "Slow off the line" : "Late on the throttle at the green";
+      else if (spin) verdict = standing ? "Too much wheelspin off the line" : "Too much wheelspin";
+
+      return {
+        fire: true,
+        data: {
+          kind: start.kind,
+          reactionTime: start.reactionTime,
+          wheelspinTime: start.wheelspinTime,
+          zeroTo100: start.zeroTo100,
+        },
+        message: `${verdict}, ${details.join(", ")}.`,
+      };
+    },
+  },
+];
+
 const VERBOSITY_FILTER: Record<VerbosityLevel, CalloutPriority[]> = {
   1: ["critical"],
   2: ["critical", "normal"],
@@ -291,6 +540,15 @@ export function createCalloutEngine(): CalloutEngine {
     onLapComplete(snapshot) {
       return runRules(lapRules, snapshot);
     },
+    onSectorComplete(snapshot) {
+      return runRules(sectorRules, snapshot);
+    },
+    onWheelSlip(snapshot) {
+      return runRules(wheelSlipRules, snapshot);
+    },
+    onRaceStart(snapshot) {
+      return runRules(startRules, snapshot);
+    },
     setVerbosity(level) {
       verbosity = level;
     },
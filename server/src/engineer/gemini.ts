@@ -179,13 +179,49 @@ export function createGeminiSession(config: GeminiSessionConfig): GeminiSession
 
 function formatSnapshotForContext(s: TelemetrySnapshot): string {
   const lines: string[] = [];
-  lines.push(`Lap ${s.lapCount}${s.totalLaps > 0 ? ` of ${s.totalLaps}` : ""}`);
+  lines.push(
+    `Lap ${s.lapCount}${s.totalLaps > 0 ? ` of ${s.totalLaps}` : ""}${s.currentLapTime >= 0 ? ` — ${formatMs(s.currentLapTime)} in` : ""}`,
+  );
 
+  if (s.track) {
+    lines.push(`Track: ${s.track.name ?? "unnamed layout"} (${(s.track.length / 1000).toFixed(2)} km)`);
+  }
   if (s.bestLapTime > 0) lines.push(`Best: ${formatMs(s.bestLapTime)}`);
   if (s.lastLapTime > 0)
     lines.push(
       `Last: ${formatMs(s.lastLapTime)} (delta: ${s.lapDelta > 0 ? "+" : ""}${(s.lapDelta / 1000).toFixed(3)}s)`,
     );
+  if (s.deltaToSessionBest !== null || s.deltaToAllTimeBest !== null) {
+    const parts = [
+      s.deltaToSessionBest !== null && `${formatDelta(s.deltaToSessionBest)} to session best`,
+      s.deltaToAllTimeBest !== null && `${formatDelta(s.deltaToAllTimeBest)} to all-time best`,
+      s.predictedLapTime > 0 && `predicted ${formatMs(s.predictedLapTime)}`,
+    ];
+    lines.push(`Live delta: ${parts.filter(Boolean).join(" | ")}`);
+  }
+  if (s.sectors.last.some((t) => t >= 0)) {
+    const sectors = s.sectors.last.map(
+      (t, i) =>
+        `S${i + 1} ${t >= 0 ? (t / 1000).toFixed(3) : "--"}${s.sectors.lastStatus[i] !== "none" ? ` (${s.sectors.lastStatus[i]})` : ""}`,
+    );
+    const theoretical =
+      s.sectors.theoreticalBest > 0
+        ? ` | theoretical best ${formatMs(s.sectors.theoreticalBest)}`
+        : "";
+    lines.push(`Sectors: ${sectors.join(", ")}${theoretical}`);
+  }
+  const cornerLosses = s.corners.lastDelta
+    .map((delta, i) => ({ turn: i + 1, delta }))
+    .filter(({ delta }) => delta && delta.time > 50)
+    .sort((a, b) => (b.delta?.time ?? 0) - (a.delta?.time ?? 0))
+    .slice(0, 3);
+  if (cornerLosses.length > 0) {
+    const corners = cornerLosses.map(
+      ({ turn, delta }) =>
+        `T${turn} ${formatDelta(delta?.time ?? 0)} (min speed ${(delta?.minSpeed ?? 0) > 0 ? "+" : ""}${delta?.minSpeed} km/h)`,
+    );
+    lines.push(`Time lost vs best lap: ${corners.join(", ")}`);
+  }
   lines.push(`Pace: ${s.lapTimeTrend}`);
 
   lines.push(
@@ -200,20 +236,77 @@ function formatSnapshotForContext(s: TelemetrySnapshot): string {
     } else {
       lines.push(`Fuel: ${s.fuelLevel.toFixed(1)}L / ${s.fuelCapacity.toFixed(0)}L | burn rate not yet available`);
     }
+    const strategy = s.fuelStrategy;
+    if (strategy) {
+      const plan =
+        strategy.margin >= 0
+          ? `${strategy.margin.toFixed(1)}L spare`
+          : strategy.stopsNeeded === 0
+            ? `${(-strategy.margin).toFixed(1)}L short, save ${strategy.savePerLap.toFixed(2)}L/lap`
+            : `${(-strategy.margin).toFixed(1)}L short, ${strategy.stopsNeeded} stop(s)${strategy.pitWindow ? `, pit window laps ${strategy.pitWindow.open}–${strategy.pitWindow.close}` : ""}`;
+      lines.push(`Fuel to finish: ${strategy.fuelToFinish.toFixed(1)}L | ${plan}`);
+    }
   }
   // When fuelUsageEnabled is false or not yet determined, omit fuel from context entirely
 
+  if (s.pit.inPitLane) lines.push("In the pit lane");
+  if (s.pit.stops.length > 0) {
+    const stints = s.pit.stints.map(
+      (stint) =>
+        `stint ${stint.number}: ${stint.laps} laps, ${stint.fuelUsed.toFixed(1)}L${stint.averageLapTime > 0 ? `, avg ${formatMs(stint.averageLapTime)}` : ""}`,
+    );
+    lines.push(`Pit stops: ${s.pit.stops.length} | ${stints.join("; ")}`);
+  }
+  const start = s.start;
+  if (start?.complete) {
+    const grid = start.gridPosition > 0 ? ` from P${start.gridPosition} of ${start.cars}` : "";
+    const zeroTo100 = start.zeroTo100 > 0 ? `, 0-100 ${(start.zeroTo100 / 1000).toFixed(1)}s` : "";
+    lines.push(
+      `Start: ${start.kind}${grid} | reaction ${start.reactionTime}ms, wheelspin ${start.wheelspinTime}ms${zeroTo100}`,
+    );
+  }
+
   const temps = s.tyreTemps;
   lines.push(
     `Tyres: FL ${Math.round(temps.fl)}°C FR ${Math.round(temps.fr)}°C RL ${Math.round(temps.rl)}°C RR ${Math.round(temps.rr)}°C`,
   );
 
+  const slipCounts = (counts: TelemetrySnapshot["wheelSlip"]["lap"]["lockups"]) =>
+    (["fl", "fr", "rl", "rr"] as const)
+      .filter((wheel) => counts[wheel] > 0)
+      .map((wheel) => `${wheel.toUpperCase()} ${counts[wheel]}`)
+      .join(", ");
+  const { lockups, wheelspins } = s.wheelSlip.lap;
+  if (slipCounts(lockups) || slipCounts(wheelspins)) {
+    lines.push(
+      `Wheel slip this lap: lock-ups ${slipCounts(lockups) || "none"} | wheelspin ${slipCounts(wheelspins) || "none"}`,
+    );
+  }
+  const handling = s.dynamics.lastLap;
+  if (handling.peakLateralG > 0) {
+    lines.push(
+      `Last lap grip: ${handling.peakLateralG.toFixed(1)}g lateral, ${handling.peakBrakingG.toFixed(1)}g braking | understeer ${Math.round(handling.understeerShare * 100)}%, oversteer ${Math.round(handling.oversteerShare * 100)}% of corners, max slip ${Math.round(handling.maxSlipAngle)}°`,
+    );
+  }
+  const shifts = s.shifts.lastLap;
+  if (shifts.shifts > 0) {
+    const points = s.shifts.gears
+      .filter((gear) => gear.shiftRpm > 0)
+      .map((gear) => `${gear.gear}→${gear.gear + 1} ${gear.shiftRpm}`);
+    lines.push(
+      `Upshifts last lap: ${shifts.good} good, ${shifts.early} early, ${shifts.late} late, ${shifts.limiter} off the limiter${points.length > 0 ? ` | best shift rpm ${points.join(", ")}` : ""}`,
+    );
+  }
   if (s.tcsPercent > 0.05) lines.push(`TCS active ${Math.round(s.tcsPercent * 100)}% this lap`);
   if (s.asmPercent > 0.05) lines.push(`ASM active ${Math.round(s.asmPercent * 100)}% this lap`);
 
   return lines.join("\n");
 }
 
+function formatDelta(ms: number): string {
+  return `${ms > 0 ? "+" : ""}${(ms / 1000).toFixed(3)}s`;
+}
+
 function formatMs(ms: number): string {
   if (ms < 0) return "--:--.---";
   const minutes = Math.floor(ms / 60000);
@@ -28,6 +28,8 @@ export interface Engineer {
   updateContext(snapshot: TelemetrySnapshot): void;
   /** Whether there's an active session. */
   readonly hasActiveSession: boolean;
+  /** Client that owns the active session, if any. */
+  readonly sessionSocketId: string | null;
 }
 
 const CONTEXT_UPDATE_INTERVAL_MS = 5_000;
@@ -168,5 +170,8 @@ export function createEngineer(io: Server, config: EngineerConfig): Engineer {
     get hasActiveSession() {
       return activeSession !== null;
     },
+    get sessionSocketId() {
+      return activeSession?.socketId ?? null;
+    },
   };
 }
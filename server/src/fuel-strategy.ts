@@ -0,0 +1,55 @@
+import type { FuelStrategy } from "@opengt/shared/types";
+
+// Lifting and coasting saves up to about this share of a lap's fuel; short by more, it's a stop
+const MAX_SAVE_SHARE = 0.1;
+
+export interface FuelState {
+  lapCount: number; // the lap in progress
+  totalLaps: number;
+  lapFraction: number; // how far into the lap, -1 if unknown
+  fuelLevel: number;
+  fuelCapacity: number;
+  burnRate: number; // litres a lap
+}
+
+function round(value: number, digits: number): number {
+  const scale = 10 ** digits;
+  return Math.round(value * scale) / scale;
+}
+
+/**
+ * Fuel to the flag at the current burn rate: how much is needed, what's left over or short,
+ * and whether saving can cover the gap or when to stop. Null outside a race with a lap count,
+ * before the burn rate is known, or after the last lap.
+ */
+export function planFuel(state: FuelState): FuelStrategy | null {
+  const { lapCount, totalLaps, fuelLevel, fuelCapacity, burnRate } = state;
+  if (totalLaps <= 0 || lapCount <= 0 || lapCount > totalLaps || burnRate <= 0) return null;
+
+  // Without a track position, count the current lap as still to run
+  const fraction = state.lapFraction >= 0 ? state.lapFraction : 0;
+  const lapsToGo = totalLaps - lapCount + 1 - fraction;
+  const fuelToFinish = lapsToGo * burnRate;
+  const margin = fuelLevel - fuelToFinish;
+  const savePerLap = margin < 0 ? -margin / lapsToGo : 0;
+
+  let stopsNeeded = 0;
+  let pitWindow: FuelStrategy["pitWindow"] = null;
+  if (savePerLap > burnRate * MAX_SAVE_SHARE && fuelCapacity > 0) {
+    stopsNeeded = Math.ceil(-margin / fuelCapacity);
+    // Box no later than the lap the tank runs dry, and no sooner than full tanks reach the flag
+    const lapsOnTank = fuelLevel / burnRate;
+    const close = Math.min(totalLaps - 1, Math.floor(lapCount - 1 + fraction + lapsOnTank));
+    const open = Math.max(lapCount, Math.ceil(totalLaps - (stopsNeeded * fuelCapacity) / burnRate));
+    if (open <= close) pitWindow = { open, close };
+  }
+
+  return {
+    lapsToGo: round(lapsToGo, 2),
+    fuelToFinish: round(fuelToFinish, 1),
+    margin: round(margin, 1),
+    savePerLap: round(savePerLap, 2),
+    stopsNeeded,
+    pitWindow,
+  };
+}
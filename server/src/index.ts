@@ -1,13 +1,41 @@
 import path from "node:path";
-import { HEARTBEAT_INTERVAL_MS, WS_PORT } from "@opengt/shared/constants";
-import { createTelemetryAnalyzer } from "./analyzer.js";
-import { deleteApiKey, getConfig, initConfig, updateConfig } from "./config.js";
-import { createCalloutEngine } from "./engineer/callouts.js";
+import { WS_PORT } from "@opengt/shared/constants";
+import type {
+  Callout,
+  ConsoleLinkState,
+  RawInspection,
+  TelemetrySourceConfig,
+  TelemetrySubscription,
+} from "@opengt/shared/types";
+import type { Socket } from "socket.io";
+import { createBestLapStore } from "./best-laps.js";
+import {
+  deleteApiKey,
+  getConfig,
+  initConfig,
+  isConsoleTarget,
+  isPacketFormat,
+  isRelayTarget,
+  updateConfig,
+} from "./config.js";
+import { type ConsolePipeline, createConsoleRegistry } from "./consoles.js";
 import { createEngineer, type Engineer } from "./engineer/index.js";
 import { validateGeminiKey } from "./engineer/validate-key.js";
-import { createTelemetryLogger } from "./logger.js";
-import { processPacket, shouldBroadcast } from "./telemetry.js";
-import { createUdpSocket, getBroadcastAddresses, startHeartbeat } from "./udp.js";
+import { createTelemetryRelay } from "./relay.js";
+import { createSectorSplitStore } from "./sector-splits.js";
+import {
+  createTelemetrySource,
+  isSourceKind,
+  listRecordings,
+  parseSourceSpec,
+  type SourcePacket,
+  type TelemetrySource,
+} from "./sources/index.js";
+import { createTelemetrySubscriptions } from "./subscriptions.js";
+import { inspectPacket } from "./telemetry.js";
+import { isMapPoint } from "./track-model.js";
+import { createTrackDatabase } from "./tracks.js";
+import { listNetworkInterfaces } from "./udp.js";
 import { createWebSocketServer } from "./websocket.js";
 
 function maskKey(key: string): string {
@@ -15,24 +43,139 @@ function maskKey(key: string): string {
   return `${key.slice(0, 4)}${"•".repeat(Math.min(key.length - 7, 16))}${key.slice(-3)}`;
 }
 
-// If PS5_IP is explicitly set, use that; otherwise auto-discover via broadcast
-const explicitIP = process.env.PS5_IP;
-let ps5Targets = explicitIP ? [explicitIP] : getBroadcastAddresses();
-let discoveredPS5: string | null = null;
-
-console.log(
-  `[GT7] ${explicitIP ? `Using explicit PS5 IP: ${explicitIP}` : `Auto-discovery via broadcast: ${ps5Targets.join(", ")}`}`,
-);
+/** Client-facing view of the current config (never includes the raw key) */
+function configState(apiKeyValid: boolean | null) {
+  const cfg = getConfig();
+  return {
+    apiKeyHint: maskKey(cfg.geminiApiKey),
+    hasApiKey: cfg.geminiApiKey.length > 0,
+    engineerEnabled: cfg.engineerEnabled,
+    apiKeyValid,
+    packetFormat: cfg.packetFormat,
+    rawCaptureEnabled: cfg.rawCaptureEnabled,
+    relayTargets: cfg.relayTargets,
+    consoleTarget: cfg.consoleTarget,
+    networkInterfaces: listNetworkInterfaces(),
+  };
+}
 
 // Config + data
 const dataDir = path.join(process.cwd(), "data");
+const sessionsDir = path.join(dataDir, "sessions");
 initConfig(dataDir);
-const logger = createTelemetryLogger(path.join(dataDir, "sessions"));
-const analyzer = createTelemetryAnalyzer();
-const calloutEngine = createCalloutEngine();
+const tracks = createTrackDatabase(dataDir);
+
+// Relay — forwards console datagrams to other GT7 tools on this machine/LAN
+const relay = createTelemetryRelay();
+relay.setTargets(getConfig().relayTargets);
 
 // Socket.IO server
 const io = createWebSocketServer(WS_PORT);
+const INSPECTOR_ROOM = "inspector";
+
+// Each client follows one console: a room per console, plus one for "whichever came first"
+const AUTO_ROOM = "console:auto";
+const CONSOLE_TIMEOUT_MS = 60_000;
+
+function consoleRoom(id: string): string {
+  return `console:${id}`;
+}
+
+// One analyzer, logger, callout engine and link tracker per console, keyed by source address
+const consoles = createConsoleRegistry({
+  sessionsDir,
+  rawCapture: () => getConfig().rawCaptureEnabled,
+  bestLaps: createBestLapStore(dataDir),
+  sectorSplits: createSectorSplitStore(dataDir),
+  tracks,
+  onCreate(pipeline) {
+    // Evaluate lap-complete callout rules when a new lap starts
+    pipeline.analyzer.onLapChange(() => {
+      const snapshot = pipeline.analyzer.getSnapshot();
+      deliverCallouts(pipeline, pipeline.calloutEngine.onLapComplete(snapshot));
+    });
+    // …and sector callout rules as each sector is timed
+    pipeline.analyzer.onSectorComplete(() => {
+      const snapshot = pipeline.analyzer.getSnapshot();
+      deliverCallouts(pipeline, pipeline.calloutEngine.onSectorComplete(snapshot));
+    });
+    // …and lock-up/wheelspin rules as each episode starts
+    pipeline.analyzer.onWheelSlip(() => {
+      const snapshot = pipeline.analyzer.getSnapshot();
+      deliverCallouts(pipeline, pipeline.calloutEngine.onWheelSlip(snapshot));
+    });
+    // …and the start verdict once the launch is over
+    pipeline.analyzer.onRaceStart(() => {
+      const snapshot = pipeline.analyzer.getSnapshot();
+      deliverCallouts(pipeline, pipeline.calloutEngine.onRaceStart(snapshot));
+    });
+    io.emit("consoles:list", consoles.list());
+  },
+});
+
+/** Rooms of the clients following a console. */
+function audience(pipeline: ConsolePipeline): string[] {
+  const rooms = [consoleRoom(pipeline.id)];
+  if (consoles.primary() === pipeline) rooms.push(AUTO_ROOM);
+  return rooms;
+}
+
+// Console link states from the live source, by address
+const consoleLinks = new Map<string, ConsoleLinkState>();
+let searchingState: ConsoleLinkState | null = null;
+
+/** Link state for clients following this console; null for sources without a console link. */
+function consoleStateFor(pipeline: ConsolePipeline | undefined): ConsoleLinkState | null {
+  if (source.kind !== "live") return null;
+  return (pipeline && consoleLinks.get(pipeline.id)) ?? searchingState;
+}
+
+function onConsoleState(state: ConsoleLinkState): void {
+  if (!state.address) {
+    searchingState = state;
+    io.to(AUTO_ROOM).emit("console:state", state);
+    return;
+  }
+
+  const pipeline = consoles.get(state.address);
+  if (pipeline) io.to(audience(pipeline)).emit("console:state", state);
+
+  if (state.phase === "lost") {
+    // Its session is over; if it comes back (maybe on a new address) it starts fresh
+    consoleLinks.delete(state.address);
+    consoles.remove(state.address);
+    io.emit("consoles:list", consoles.list());
+  } else {
+    consoleLinks.set(state.address, state);
+  }
+}
+
+/** Connected clients following a console. */
+function followers(pipeline: ConsolePipeline): string[] {
+  const ids = new Set<string>();
+  for (const room of audience(pipeline)) {
+    for (const id of io.sockets.adapter.rooms.get(room) ?? []) ids.add(id);
+  }
+  return [...ids];
+}
+
+/** The console a client follows: the one it picked, or the primary. */
+function followedBy(socket: Socket): ConsolePipeline | undefined {
+  for (const room of socket.rooms) {
+    if (room.startsWith("console:") && room !== AUTO_ROOM) {
+      return consoles.get(room.slice("console:".length));
+    }
+  }
+  return consoles.primary();
+}
+
+function isFollowing(socketId: string | null, pipeline: ConsolePipeline): boolean {
+  const socket = socketId ? io.sockets.sockets.get(socketId) : undefined;
+  return !!socket && audience(pipeline).some((room) => socket.rooms.has(room));
+}
+
+// Each client picks its own telemetry rate and fields
+const subscriptions = createTelemetrySubscriptions();
 
 // Engineer — created dynamically when API key is available and enabled
 let engineer: Engineer | null = null;
@@ -52,15 +195,22 @@ initEngineer();
 
 // Settings + config Socket.IO events
 io.on("connection", (socket) => {
-  // Send current config on connect
-  const cfg = getConfig();
-  socket.emit("config:state", {
-    apiKeyHint: maskKey(cfg.geminiApiKey),
-    hasApiKey: cfg.geminiApiKey.length > 0,
-    engineerEnabled: cfg.engineerEnabled,
-    apiKeyValid: null,
+  // Follow the primary console until the client picks one
+  socket.join(AUTO_ROOM);
+  socket.emit("consoles:list", consoles.list());
+  socket.emit("console:state", consoleStateFor(consoles.primary()));
+  socket.on("console:follow", (params: { id: string | null } | null | undefined) => {
+    const id = params?.id ?? null;
+    for (const room of socket.rooms) {
+      if (room.startsWith("console:")) socket.leave(room);
+    }
+    socket.join(id ? consoleRoom(id) : AUTO_ROOM);
+    socket.emit("console:state", consoleStateFor(id ? consoles.get(id) : consoles.primary()));
   });
 
+  // Send current config on connect
+  socket.emit("config:state", configState(null));
+
   // Save API key
   socket.on(
     "config:setApiKey",
@@ -74,13 +224,7 @@ io.on("connection", (socket) => {
         initEngineer();
       }
       // Broadcast updated state to all clients
-      const updated = getConfig();
-      io.emit("config:state", {
-        apiKeyHint: maskKey(updated.geminiApiKey),
-        hasApiKey: updated.geminiApiKey.length > 0,
-        engineerEnabled: updated.engineerEnabled,
-        apiKeyValid: result.valid,
-      });
+      io.emit("config:state", configState(result.valid));
       callback?.(result);
     },
   );
@@ -89,14 +233,8 @@ io.on("connection", (socket) => {
   socket.on(
     "config:testKey",
     async (callback?: (result: { valid: boolean; error?: string }) => void) => {
-      const cfg = getConfig();
-      const result = await validateGeminiKey(cfg.geminiApiKey);
-      io.emit("config:state", {
-        apiKeyHint: maskKey(cfg.geminiApiKey),
-        hasApiKey: cfg.geminiApiKey.length > 0,
-        engineerEnabled: cfg.engineerEnabled,
-        apiKeyValid: result.valid,
-      });
+      const result = await validateGeminiKey(getConfig().geminiApiKey);
+      io.emit("config:state", configState(result.valid));
       callback?.(result);
     },
   );
@@ -106,124 +244,276 @@ io.on("connection", (socket) => {
     deleteApiKey();
     engineer = null;
     console.log("[GT7] API key deleted, engineer disabled");
-    io.emit("config:state", { apiKeyHint: "", hasApiKey: false, engineerEnabled: false, apiKeyValid: null });
+    io.emit("config:state", configState(null));
   });
 
   // Toggle engineer on/off
   socket.on("config:setEngineerEnabled", (params: { enabled: boolean }) => {
     updateConfig({ engineerEnabled: params.enabled });
     initEngineer();
-    const updated = getConfig();
-    io.emit("config:state", {
-      apiKeyHint: maskKey(updated.geminiApiKey),
-      hasApiKey: updated.geminiApiKey.length > 0,
-      engineerEnabled: updated.engineerEnabled,
-      apiKeyValid: null,
-    });
+    io.emit("config:state", configState(null));
+  });
+
+  // Packet format — takes effect on the next heartbeat, sent immediately
+  socket.on("config:setPacketFormat", (params: { format: string } | null | undefined) => {
+    if (!isPacketFormat(params?.format)) return;
+    updateConfig({ packetFormat: params.format });
+    // Restarting the live source sends a heartbeat with the new character right away
+    if (source.kind === "live") {
+      source.stop();
+      source.start();
+    }
+    console.log(`[GT7] Packet format set to "${params.format}"`);
+    io.emit("config:state", configState(null));
+  });
+
+  // Console target — pinned IPs, broadcast interfaces, heartbeat interval.
+  // Restarting the live source re-reads them and heartbeats the new targets right away;
+  // console links and pipelines survive the restart.
+  socket.on("config:setConsoleTarget", (params: unknown) => {
+    if (!isConsoleTarget(params)) return;
+    const { explicitIPs, interfaces, heartbeatIntervalMs } = params;
+    updateConfig({ consoleTarget: { explicitIPs, interfaces, heartbeatIntervalMs } });
+    if (source.kind === "live") {
+      source.stop();
+      source.start();
+    }
+    console.log(
+      `[GT7] Console target: ${explicitIPs.length > 0 ? explicitIPs.join(", ") : "auto-discover"}, heartbeat every ${heartbeatIntervalMs / 1000}s`,
+    );
+    io.emit("config:state", configState(null));
+  });
+
+  // Raw capture — applies from the next logged session
+  socket.on("config:setRawCapture", (params: { enabled: boolean } | null | undefined) => {
+    updateConfig({ rawCaptureEnabled: params?.enabled === true });
+    io.emit("config:state", configState(null));
+  });
+
+  // Relay targets — applied immediately
+  socket.on("config:setRelayTargets", (params: { targets: unknown[] } | null | undefined) => {
+    if (!Array.isArray(params?.targets) || !params.targets.every(isRelayTarget)) return;
+    const relayTargets = params.targets.map(({ host, port, mode }) => ({
+      host: host.trim(),
+      port,
+      mode,
+    }));
+    updateConfig({ relayTargets });
+    relay.setTargets(relayTargets);
+    io.emit("config:state", configState(null));
+  });
+
+  // Telemetry source — live console, recorded session, raw capture or synthetic car
+  socket.emit("source:state", sourceState());
+  socket.on("source:set", (params: TelemetrySourceConfig | null | undefined) => {
+    if (!isSourceKind(params?.kind)) return;
+    if (
+      (params.kind === "replay" || params.kind === "capture") &&
+      !listRecordings(sessionsDir).includes(params.file ?? "")
+    ) {
+      return;
+    }
+    switchSource(params);
+  });
+
+  // Telemetry rate, field selection and encoding for this client. The ack carries what
+  // was granted — binary falls back to JSON if the client speaks another wire version.
+  socket.on(
+    "telemetry:subscribe",
+    (params: unknown, callback?: (subscription: TelemetrySubscription) => void) => {
+      const subscription = subscriptions.set(socket.id, params);
+      const { hz, fields, encoding } = subscription;
+      console.log(
+        `[WS] ${socket.id} subscribed at ${hz}Hz, ${encoding}${fields && encoding === "json" ? ` (${fields.length} fields)` : ""}`,
+      );
+      callback?.(subscription);
+    },
+  );
+  socket.on("disconnect", () => subscriptions.remove(socket.id));
+
+  // Sector splits picked on the track map, for the console this client follows.
+  // Null goes back to automatic thirds; the new sectors reach everyone with the snapshot.
+  socket.on("sectors:set", (params: { points: unknown } | null | undefined) => {
+    const pipeline = followedBy(socket);
+    // A missing payload reads as no points, which fails the check below
+    const points = params?.points;
+    if (!pipeline || (points !== null && !(Array.isArray(points) && points.every(isMapPoint)))) {
+      return;
+    }
+    if (pipeline.analyzer.setSectorSplits(points)) {
+      io.to(audience(pipeline)).emit("telemetry:snapshot", pipeline.analyzer.getSnapshot());
+    }
+  });
+
+  // Name a recognised track — every console on it shows the name with its next snapshot
+  socket.on("track:name", (params: { id: unknown; name: unknown } | null | undefined) => {
+    if (typeof params?.id !== "string" || typeof params.name !== "string") return;
+    tracks.rename(params.id, params.name);
+  });
+
+  // Raw packet inspector — clients in the room get the unknown regions at their telemetry rate
+  socket.on("inspector:subscribe", () => {
+    socket.join(INSPECTOR_ROOM);
+  });
+  socket.on("inspector:unsubscribe", () => {
+    socket.leave(INSPECTOR_ROOM);
   });
 
   // Verbosity
   socket.on("engineer:verbosity", (params: { level: 1 | 2 | 3 }) => {
-    calloutEngine.setVerbosity(params.level);
+    consoles.setVerbosity(params.level);
     console.log(`[Engineer] Verbosity set to ${params.level}`);
   });
 });
 
-// UDP socket — process incoming telemetry packets
-const udp = createUdpSocket((msg, rinfo) => {
-  const telemetry = processPacket(msg);
-  if (!telemetry) return;
+// Every packet from the active source flows through here
+function onSourcePacket({ data: telemetry, raw, format }: SourcePacket): void {
+  // Live and capture packets carry the console's address; other sources are a single stream
+  const pipeline = consoles.getOrCreate(raw?.address ?? source.kind, raw?.address ?? null);
+  pipeline.lastPacketAt = Date.now();
 
-  // Log and analyze every valid packet
-  logger.onPacket(telemetry);
-  analyzer.onPacket(telemetry);
+  // Other tools get every datagram as received — they do their own filtering
+  if (raw) relay.onDatagram(raw.bytes, format);
 
-  // Auto-discover: lock onto the PS5's IP once we get valid data
-  if (!discoveredPS5 && !explicitIP) {
-    discoveredPS5 = rinfo.address;
-    ps5Targets = [discoveredPS5];
-    console.log(`[GT7] 🎮 PS5 discovered at ${discoveredPS5}`);
+  // Duplicates and late arrivals are dropped so the analyzer never goes back in time
+  const fresh = pipeline.linkQuality.onPacket(telemetry.packetId);
+  if (fresh) {
+    // Fill in what the packet doesn't carry before anyone logs or sees it
+    telemetry.currentLapTime = pipeline.lapTimer.onPacket(telemetry);
+    pipeline.analyzer.onPacket(telemetry);
+    const position = pipeline.analyzer.getTrackPosition();
+    telemetry.lapDistance = position?.distance ?? -1;
+    telemetry.lapFraction = position?.fraction ?? -1;
+    const delta = pipeline.analyzer.getLapDelta();
+    telemetry.deltaToSessionBest = delta.sessionBest;
+    telemetry.deltaToAllTimeBest = delta.allTimeBest;
+    telemetry.predictedLapTime = delta.predictedLapTime;
+    telemetry.slipRatio = pipeline.analyzer.getSlipRatio();
+    Object.assign(telemetry, pipeline.analyzer.getDynamics());
+    pipeline.latest = telemetry;
   }
 
-  // Throttle broadcast to ~30Hz
-  if (shouldBroadcast()) {
-    io.emit("telemetry", telemetry);
+  // Log only real driving — replays and the synthetic car are already on disk or fake.
+  // The raw capture keeps every datagram, dropped ones included.
+  if (source.kind === "live") {
+    if (fresh) pipeline.logger.onPacket(telemetry, format);
+    if (raw) pipeline.logger.onDatagram(raw, format);
   }
-});
-
-// Emit telemetry snapshot every second + evaluate periodic callouts
-let contextUpdateCounter = 0;
-setInterval(() => {
-  const snapshot = analyzer.getSnapshot();
-  if (snapshot.carOnTrack) {
-    io.emit("telemetry:snapshot", snapshot);
+  if (!fresh) return;
 
-    // Evaluate periodic callout rules
-    const callouts = calloutEngine.evaluate(snapshot);
-    if (callouts.length > 0) {
-      for (const callout of callouts) {
-        console.log(`[Engineer] ${callout.type}: ${callout.message}`);
-      }
+  // Each follower gets the fields it asked for, at its own rate
+  const now = Date.now();
+  const inspectorRoom = io.sockets.adapter.rooms.get(INSPECTOR_ROOM);
+  let inspection: RawInspection | null | undefined;
+  for (const id of followers(pipeline)) {
+    const frame = subscriptions.frameFor(id, telemetry, now);
+    if (!frame) continue;
+    io.to(id).emit(frame.event, frame.payload);
 
-      if (engineer?.hasActiveSession) {
-        engineer.deliverCallouts(callouts);
-      } else {
-        for (const callout of callouts) {
-          io.emit("engineer:text", {
-            text: callout.message,
-            type: callout.type,
-            timestamp: callout.timestamp,
-          });
-        }
-      }
-    }
-
-    // Update Gemini context every 5 seconds
-    contextUpdateCounter++;
-    if (engineer?.hasActiveSession && contextUpdateCounter >= 5) {
-      engineer.updateContext(snapshot);
-      contextUpdateCounter = 0;
+    // Only decode the unknown regions when an inspector is due a frame
+    if (raw && inspectorRoom?.has(id)) {
+      if (inspection === undefined) inspection = inspectPacket(raw.bytes, format);
+      if (inspection) io.to(id).emit("telemetry:raw", inspection);
     }
   }
-}, 1000);
+}
 
-// Evaluate lap-complete callout rules when a new lap starts
-analyzer.onLapChange(() => {
-  const snapshot = analyzer.getSnapshot();
-  const callouts = calloutEngine.onLapComplete(snapshot);
+/** Send callouts to the engineer if its driver follows this console, else as text. */
+function deliverCallouts(pipeline: ConsolePipeline, callouts: Callout[]): void {
+  if (callouts.length === 0) return;
+  for (const callout of callouts) {
+    console.log(`[Engineer] ${pipeline.id} ${callout.type}: ${callout.message}`);
+  }
 
-  if (callouts.length > 0) {
+  if (engineer?.hasActiveSession && isFollowing(engineer.sessionSocketId, pipeline)) {
+    engineer.deliverCallouts(callouts);
+  } else {
     for (const callout of callouts) {
-      console.log(`[Engineer] ${callout.type}: ${callout.message}`);
-    }
-
-    if (engineer?.hasActiveSession) {
-      engineer.deliverCallouts(callouts);
-    } else {
-      for (const callout of callouts) {
-        io.emit("engineer:text", {
-          text: callout.message,
-          type: callout.type,
-          timestamp: callout.timestamp,
-        });
-      }
+      io.to(audience(pipeline)).emit("engineer:text", {
+        text: callout.message,
+        type: callout.type,
+        timestamp: callout.timestamp,
+      });
     }
   }
-});
+}
+
+function makeSource(config: TelemetrySourceConfig): TelemetrySource {
+  return createTelemetrySource(config, {
+    emit: onSourcePacket,
+    getFormat: () => getConfig().packetFormat,
+    getConsoleTarget: () => getConfig().consoleTarget,
+    onConsoleState,
+    recordingsDir: sessionsDir,
+  });
+}
+
+function sourceState() {
+  return { source: sourceConfig, recordings: listRecordings(sessionsDir) };
+}
 
-// Send heartbeat to PS5 targets
-startHeartbeat(udp, () => ps5Targets, HEARTBEAT_INTERVAL_MS);
+function switchSource(config: TelemetrySourceConfig): void {
+  source.stop();
+  consoles.reset();
+  consoleLinks.clear();
+  searchingState = null;
+  sourceConfig = config;
+  source = makeSource(config);
+  source.start();
+  console.log(`[Source] Switched to ${config.kind}${config.file ? ` (${config.file})` : ""}`);
+  io.emit("source:state", sourceState());
+  io.emit("consoles:list", consoles.list());
+  io.emit("console:state", consoleStateFor(undefined));
+}
+
+// Start with TELEMETRY_SOURCE (e.g. "synthetic", "replay:<file>"), default live console
+let sourceConfig = parseSourceSpec(process.env.TELEMETRY_SOURCE);
+let source = makeSource(sourceConfig);
+source.start();
+
+// Emit link stats + telemetry snapshots every second, evaluate periodic callouts
+let contextUpdateCounter = 0;
+setInterval(() => {
+  consoles.prune(CONSOLE_TIMEOUT_MS);
+
+  // Update Gemini context every 5 seconds
+  contextUpdateCounter++;
+  const updateContext = contextUpdateCounter >= 5;
+  if (updateContext) contextUpdateCounter = 0;
+
+  for (const pipeline of consoles.all()) {
+    const rooms = audience(pipeline);
+    io.to(rooms).emit("link:stats", pipeline.linkQuality.getStats());
+    io.to(rooms).emit("console:state", consoleStateFor(pipeline));
 
-console.log(
-  `[GT7] Targets: ${ps5Targets.join(", ")}${discoveredPS5 ? ` (discovered: ${discoveredPS5})` : " (auto-discovery mode)"}`,
-);
+    const snapshot = pipeline.analyzer.getSnapshot();
+    if (!snapshot.carOnTrack) continue;
+    io.to(rooms).emit("telemetry:snapshot", snapshot);
+
+    // Evaluate periodic callout rules
+    deliverCallouts(pipeline, pipeline.calloutEngine.evaluate(snapshot));
+
+    if (
+      updateContext &&
+      engineer?.hasActiveSession &&
+      isFollowing(engineer.sessionSocketId, pipeline)
+    ) {
+      engineer.updateContext(snapshot);
+    }
+  }
+  io.emit("consoles:list", consoles.list());
+}, 1000);
 
 // Graceful shutdown
 process.on("SIGINT", () => {
-  logger.close();
+  source.stop();
+  consoles.reset();
+  relay.close();
   process.exit(0);
 });
 process.on("SIGTERM", () => {
-  logger.close();
+  source.stop();
+  consoles.reset();
+  relay.close();
   process.exit(0);
 });
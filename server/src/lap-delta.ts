@@ -0,0 +1,218 @@
+import { CONSOLE_PACKET_HZ } from "@opengt/shared/constants";
+import type { TelemetryData } from "@opengt/shared/types";
+import type { TrackPosition } from "./track-model.js";
+
+const TRACE_POINTS = 1000; // reference times per lap, evenly spaced by lap fraction
+const MAX_START_FRACTION = 0.02; // a trace has to begin at the line…
+const MAX_JUMP_FRACTION = 0.05; // …and can't skip more of the lap than this between packets
+// How long after a lap change the new lastLapTime may take to show up
+const CORRECTION_WINDOW_TICKS = CONSOLE_PACKET_HZ * 2;
+// A lap time that didn't change is only taken if the trace's own timing agrees this closely
+const REPEAT_LAP_TOLERANCE = 0.01;
+
+/** A timed lap: times[i] is ms into the lap at fraction i / TRACE_POINTS. */
+export interface ReferenceLap {
+  lapTime: number; // ms, official
+  times: number[]; // TRACE_POINTS + 1 entries, the last one is lapTime
+}
+
+export interface LapDelta {
+  sessionBest: number | null; // ms, positive = slower
+  allTimeBest: number | null;
+  predictedLapTime: number; // ms, -1 without a reference lap
+}
+
+/** How far round the lap the car is, with the line's wrap-around taken out. */
+export interface LapProgress {
+  fraction: number;
+  time: number; // ms into the lap
+}
+
+export interface LapDeltaTracker {
+  /** Feed every on-track packet. Returns the lap just completed, once it's officially timed. */
+  onPacket(data: TelemetryData, position: TrackPosition | null): ReferenceLap | null;
+  /** Live delta at the last packet. */
+  current(): LapDelta;
+  /** Lap progress at the last packet; null without a position or lap time. */
+  progress(): LapProgress | null;
+  /** The stored all-time best to compare against, e.g. once the track is known. */
+  setAllTimeBest(lap: ReferenceLap | null): void;
+  /** Forget every reference, e.g. for a new race. */
+  reset(): void;
+}
+
+interface PendingLap {
+  times: number[];
+  fraction: number; // where the trace ended
+  time: number;
+  lastLapTimeBefore: number;
+  waited: number;
+}
+
+export const NO_LAP_DELTA: LapDelta = {
+  sessionBest: null,
+  allTimeBest: null,
+  predictedLapTime: -1,
+};
+
+/** Ms into the reference lap at this fraction of it. */
+function referenceTime(lap: ReferenceLap, fraction: number): number {
+  const at = Math.max(0, Math.min(1, fraction)) * TRACE_POINTS;
+  const i = Math.min(Math.floor(at), TRACE_POINTS - 1);
+  return lap.times[i] + (lap.times[i + 1] - lap.times[i]) * (at - i);
+}
+
+/** Add trace points from one sample to the next, interpolating between them. */
+function extend(times: number[], from: [number, number], to: [number, number]): void {
+  const [f0, t0] = from;
+  const [f1, t1] = to;
+  for (let i = times.length; i <= TRACE_POINTS && i / TRACE_POINTS <= f1; i++) {
+    times.push(t0 + ((t1 - t0) * (i / TRACE_POINTS - f0)) / (f1 - f0));
+  }
+}
+
+/**
+ * Distance-based delta. Each lap is traced as lap time against lap fraction; a clean,
+ * officially timed lap faster than the session best becomes the new reference, and the
+ * running lap is compared with it point by point.
+ */
+export function createLapDeltaTracker(): LapDeltaTracker {
+  let lastLapCount = -1;
+  let lastLapTime = -1;
+  let lastFraction = 0;
+  let lastTime = 0;
+  let trace: number[] | null = null; // the lap in progress; null once it can't be a reference
+  let pending: PendingLap | null = null;
+  let sessionBest: ReferenceLap | null = null;
+  let allTimeBest: ReferenceLap | null = null;
+  let delta = NO_LAP_DELTA;
+  let progress: LapProgress | null = null;
+
+  /** The line falls between packets, so near it a fraction can read as the far end. */
+  function unwrap(fraction: number): number {
+    if (Math.abs(fraction - lastFraction) <= 0.5) return fraction;
+    return lastFraction < 0.5 ? 0 : 1;
+  }
+
+  function record(fraction: number, time: number): void {
+    if (!trace) return;
+    if (trace.length === 0) {
+      if (fraction > MAX_START_FRACTION) {
+        trace = null;
+        return;
+      }
+      trace.push(0);
+    }
+    if (fraction - lastFraction > MAX_JUMP_FRACTION) {
+      trace = null;
+      return;
+    }
+    // Standing still or rolling backwards adds nothing to the trace
+    if (fraction > lastFraction) extend(trace, [lastFraction, lastTime], [fraction, time]);
+  }
+
+  function finish(lap: PendingLap, lapTime: number): ReferenceLap {
+    const times = lap.times.slice(0, TRACE_POINTS);
+    // The last packets before the line: fill in up to the official time
+    extend(times, [lap.fraction, lap.time], [1, lapTime]);
+    times[TRACE_POINTS] = lapTime;
+    return { lapTime, times };
+  }
+
+  function onLapChange(data: TelemetryData): void {
+    // Only a +1 step ends a lap, and only a trace that got most of the way round is usable
+    const complete =
+      trace !== null &&
+      lastLapCount >= 1 &&
+      data.lapCount === lastLapCount + 1 &&
+      trace.length >= TRACE_POINTS * (1 - MAX_JUMP_FRACTION);
+    pending =
+      complete && trace
+        ? {
+            times: trace,
+            fraction: lastFraction,
+            time: lastTime,
+            lastLapTimeBefore: lastLapTime,
+            waited: 0,
+          }
+        : null;
+    trace = data.lapCount >= 1 && lastLapCount >= 0 ? [] : null;
+    lastLapCount = data.lapCount;
+    lastFraction = 0;
+    lastTime = 0;
+  }
+
+  function onPacket(data: TelemetryData, position: TrackPosition | null): ReferenceLap | null {
+    if (data.lapCount !== lastLapCount) onLapChange(data);
+
+    let completed: ReferenceLap | null = null;
+    if (pending) {
+      const timed = data.lastLapTime > 0;
+      const updated = timed && data.lastLapTime !== pending.lastLapTimeBefore;
+      const expired = !updated && ++pending.waited > CORRECTION_WINDOW_TICKS;
+      // The same time to the ms as the lap before never shows up as a change
+      const repeated =
+        expired &&
+        timed &&
+        Math.abs(pending.time / pending.fraction / data.lastLapTime - 1) <= REPEAT_LAP_TOLERANCE;
+      if (updated || repeated) {
+        completed = finish(pending, data.lastLapTime);
+        if (!sessionBest || completed.lapTime < sessionBest.lapTime) sessionBest = completed;
+        if (allTimeBest && completed.lapTime < allTimeBest.lapTime) allTimeBest = completed;
+      }
+      if (updated || expired) pending = null;
+    }
+    lastLapTime = data.lastLapTime;
+
+    const time = data.currentLapTime;
+    if (!position || time < 0) {
+      // Without a position the lap can't be traced from end to end
+      trace = null;
+      delta = NO_LAP_DELTA;
+      progress = null;
+      return completed;
+    }
+
+    const fraction = unwrap(position.fraction);
+    progress = { fraction, time };
+    record(fraction, time);
+    if (fraction >= lastFraction) {
+      lastFraction = fraction;
+      lastTime = time;
+    }
+
+    const deltaTo = (lap: ReferenceLap | null) =>
+      lap ? Math.round(time - referenceTime(lap, fraction)) : null;
+    // Predict from the session best when there is one — it's closest to current conditions
+    const reference = sessionBest ?? allTimeBest;
+    delta = {
+      sessionBest: deltaTo(sessionBest),
+      allTimeBest: deltaTo(allTimeBest),
+      predictedLapTime: reference ? reference.lapTime + (deltaTo(reference) ?? 0) : -1,
+    };
+    return completed;
+  }
+
+  function reset(): void {
+    lastLapCount = -1;
+    lastLapTime = -1;
+    lastFraction = 0;
+    lastTime = 0;
+    trace = null;
+    pending = null;
+    sessionBest = null;
+    allTimeBest = null;
+    delta = NO_LAP_DELTA;
+    progress = null;
+  }
+
+  return {
+    onPacket,
+    current: () => delta,
+    progress: () => progress,
+    setAllTimeBest(lap) {
+      allTimeBest = lap;
+    },
+    reset,
+  };
+}
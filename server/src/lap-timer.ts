@@ -0,0 +1,86 @@
+import { CONSOLE_PACKET_HZ } from "@opengt/shared/constants";
+import type { TelemetryData } from "@opengt/shared/types";
+
+const TICK_MS = 1000 / CONSOLE_PACKET_HZ;
+const MAX_GAP = CONSOLE_PACKET_HZ * 10; // bigger jumps are a resync, not loss — count one tick
+// The console's clock isn't exactly 60Hz; calibrate against official lap times, within reason
+const MAX_RATE_ERROR = 0.02;
+// How long after a lap change the new lastLapTime may take to show up
+const CORRECTION_WINDOW_TICKS = CONSOLE_PACKET_HZ * 2;
+
+export interface LapTimer {
+  /** Feed every fresh packet. Returns ms into the current lap, or -1 if unknown. */
+  onPacket(data: TelemetryData): number;
+}
+
+interface FinishedLap {
+  ticks: number;
+  lastLapTimeBefore: number; // lastLapTime until the game reports this lap
+  waited: number;
+}
+
+/**
+ * Running lap clock. The packet doesn't carry one, so this counts console ticks from the
+ * packet where lapCount changed: packetId gaps count (dropped packets still took time),
+ * paused and loading packets don't. Once the game reports the finished lap's official
+ * time, the tick length is calibrated and the overshoot carried into the new lap.
+ */
+export function createLapTimer(): LapTimer {
+  let lastLapCount = -1;
+  let lastPacketId = -1;
+  let lastLapTime = -1;
+  let ticks = -1; // into the current lap; -1 until a lap start has been seen
+  let tickMs = TICK_MS;
+  let officialMsTotal = 0;
+  let measuredTicksTotal = 0;
+  let finished: FinishedLap | null = null;
+
+  function ticksSinceLastPacket(packetId: number): number {
+    const gap = lastPacketId >= 0 ? packetId - lastPacketId : 1;
+    lastPacketId = packetId;
+    return gap > 0 && gap <= MAX_GAP ? gap : 1;
+  }
+
+  function calibrate(officialMs: number, measuredTicks: number): void {
+    // Averaged over every timed lap, so where the line fell between packets evens out
+    officialMsTotal += officialMs;
+    measuredTicksTotal += measuredTicks;
+    const calibrated = officialMsTotal / measuredTicksTotal;
+    if (Math.abs(calibrated / TICK_MS - 1) <= MAX_RATE_ERROR) tickMs = calibrated;
+
+    // The line was crossed between two packets: ticks counted past it belong to this lap
+    const overshoot = measuredTicks - officialMs / tickMs;
+    if (overshoot > 0 && overshoot < 1) ticks += overshoot;
+  }
+
+  function onPacket(data: TelemetryData): number {
+    const advance = ticksSinceLastPacket(data.packetId);
+
+    if (data.lapCount !== lastLapCount) {
+      // Only a +1 step from a timed lap is a finished lap; anything else is a new race
+      finished =
+        ticks >= 0 && data.lapCount === lastLapCount + 1
+          ? { ticks: ticks + advance, lastLapTimeBefore: lastLapTime, waited: 0 }
+          : null;
+      // Lap 0 is the grid, and joining mid-lap there's no start to count from
+      ticks = data.lapCount >= 1 && lastLapCount >= 0 ? 0 : -1;
+      lastLapCount = data.lapCount;
+    } else if (ticks >= 0 && data.carOnTrack && !data.paused && !data.loading) {
+      ticks += advance;
+    }
+    lastLapTime = data.lastLapTime;
+
+    if (finished) {
+      if (data.lastLapTime > 0 && data.lastLapTime !== finished.lastLapTimeBefore) {
+        calibrate(data.lastLapTime, finished.ticks);
+        finished = null;
+      } else if (++finished.waited > CORRECTION_WINDOW_TICKS) {
+        finished = null;
+      }
+    }
+
+    return ticks >= 0 && data.carOnTrack ? Math.round(ticks * tickMs) : -1;
+  }
+
+  return { onPacket };
+}
@@ -0,0 +1,79 @@
+import fs from "node:fs";
+import path from "node:path";
+import readline from "node:readline";
+import type { TelemetryData } from "@opengt/shared/types";
+import type { SessionMeta } from "./logger.js";
+import { createTrackModel } from "./track-model.js";
+import { createTrackDatabase, fingerprintTrack } from "./tracks.js";
+
+/**
+ * Learn the tracks driven in logged sessions into data/tracks.json, and note in each
+ * session's metadata which track it was.
+ *
+ *   pnpm learn-tracks [data/sessions/<session>.ndjson …]
+ */
+async function main(): Promise<void> {
+  const dataDir = path.join(process.cwd(), "data");
+  const sessionsDir = path.join(dataDir, "sessions");
+  const args = process.argv.slice(2);
+  const files =
+    args.length > 0
+      ? args.map((file) => path.resolve(file))
+      : fs.existsSync(sessionsDir)
+        ? fs
+            .readdirSync(sessionsDir)
+            .filter((name) => name.endsWith(".ndjson"))
+            .sort()
+            .map((name) => path.join(sessionsDir, name))
+        : [];
+  if (files.length === 0) {
+    console.error("Usage: learn-tracks [session.ndjson …] (default: every logged session)");
+    process.exit(1);
+  }
+
+  const tracks = createTrackDatabase(dataDir);
+  let identified = 0;
+  for (const file of files) {
+    const track = createTrackModel();
+    // Sessions logged before game detection have no game, and they're all GT7
+    let game: TelemetryData["game"] = "gt7";
+
+    const lines = readline.createInterface({
+      input: fs.createReadStream(file),
+      crlfDelay: Number.POSITIVE_INFINITY,
+    });
+    try {
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+        const { data } = JSON.parse(line) as { data: TelemetryData };
+        game = data.game ?? game;
+        track.onPacket(data);
+        if (track.length > 0) break;
+      }
+    } finally {
+      lines.close();
+    }
+
+    const fingerprint = fingerprintTrack(game, track);
+    if (!fingerprint) {
+      console.log(`[Tracks] ${path.basename(file)}: no clean lap`);
+      continue;
+    }
+    const info = tracks.identify(fingerprint);
+    identified++;
+
+    const metaPath = file.replace(/\.ndjson$/, ".meta.json");
+    if (fs.existsSync(metaPath)) {
+      const meta: SessionMeta = JSON.parse(fs.readFileSync(metaPath, "utf-8"));
+      meta.track = info;
+      fs.writeFileSync(metaPath, JSON.stringify(meta, null, 2));
+    }
+  }
+
+  console.log(`[Tracks] ${identified}/${files.length} sessions identified`);
+}
+
+main().catch((err) => {
+  console.error("[Tracks] Failed:", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
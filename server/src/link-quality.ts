@@ -0,0 +1,131 @@
+import { CONSOLE_PACKET_HZ } from "@opengt/shared/constants";
+import type { LinkQualityStats } from "@opengt/shared/types";
+
+const WINDOW_MS = 10_000;
+const BUCKET_MS = 1_000;
+const EXPECTED_INTERVAL_MS = 1000 / CONSOLE_PACKET_HZ;
+const RECENT_IDS = 256; // how far back duplicates of late packets are recognised
+const MAX_GAP = CONSOLE_PACKET_HZ * 10; // bigger jumps are a resync (console restart, reconnect), not loss
+
+interface Bucket {
+  startedAt: number;
+  received: number;
+  lost: number;
+  duplicates: number;
+  reordered: number;
+}
+
+export interface LinkQualityTracker {
+  /** Feed every valid packet. Returns false if it is a duplicate or arrived too late to use. */
+  onPacket(packetId: number): boolean;
+  /** Rolling stats over the last few seconds. */
+  getStats(): LinkQualityStats;
+  /** Forget the sequence, e.g. after switching consoles. */
+  reset(): void;
+}
+
+export function createLinkQualityTracker(): LinkQualityTracker {
+  let highestId = -1;
+  let lastArrival = 0;
+  let jitterMs = 0;
+  const recentIds = new Set<number>();
+  const buckets: Bucket[] = [];
+
+  function currentBucket(now: number): Bucket {
+    const last = buckets[buckets.length - 1];
+    if (last && now - last.startedAt < BUCKET_MS) return last;
+
+    const bucket = { startedAt: now, received: 0, lost: 0, duplicates: 0, reordered: 0 };
+    buckets.push(bucket);
+    // Prune buckets that fell out of the window
+    while (buckets.length > 0 && now - buckets[0].startedAt > WINDOW_MS) buckets.shift();
+    return bucket;
+  }
+
+  function remember(packetId: number): void {
+    recentIds.add(packetId);
+    if (recentIds.size > RECENT_IDS) {
+      // Sets iterate in insertion order — drop the oldest
+      const oldest = recentIds.values().next().value;
+      if (oldest !== undefined) recentIds.delete(oldest);
+    }
+  }
+
+  function reset(): void {
+    highestId = -1;
+    lastArrival = 0;
+    jitterMs = 0;
+    recentIds.clear();
+  }
+
+  function onPacket(packetId: number): boolean {
+    const now = performance.now();
+    const bucket = currentBucket(now);
+
+    if (recentIds.has(packetId)) {
+      bucket.duplicates++;
+      return false;
+    }
+
+    const delta = highestId < 0 ? 1 : packetId - highestId;
+
+    // Counter jumped far in either direction — start a new sequence
+    if (delta > MAX_GAP || delta < -MAX_GAP) {
+      reset();
+      return onPacket(packetId);
+    }
+
+    remember(packetId);
+    bucket.received++;
+
+    // Older than what we already passed on: it was counted as lost, now it's just late
+    if (delta < 0) {
+      bucket.reordered++;
+      if (bucket.lost > 0) bucket.lost--;
+      return false;
+    }
+
+    bucket.lost += delta - 1;
+
+    // Interarrival jitter (RFC 3550 style), normalised to the expected spacing
+    if (lastArrival > 0) {
+      const deviation = Math.abs(now - lastArrival - delta * EXPECTED_INTERVAL_MS);
+      jitterMs += (deviation - jitterMs) / 16;
+    }
+    lastArrival = now;
+    highestId = packetId;
+    return true;
+  }
+
+  function getStats(): LinkQualityStats {
+    const now = performance.now();
+    let received = 0;
+    let lost = 0;
+    let duplicates = 0;
+    let reordered = 0;
+    let oldest = now;
+    for (const b of buckets) {
+      if (now - b.startedAt > WINDOW_MS) continue;
+      received += b.received;
+      lost += b.lost;
+      duplicates += b.duplicates;
+      reordered += b.reordered;
+      oldest = Math.min(oldest, b.startedAt);
+    }
+    const expected = received + lost;
+    const spanMs = Math.max(now - oldest, BUCKET_MS);
+
+    return {
+      windowMs: WINDOW_MS,
+      received,
+      lost,
+      duplicates,
+      reordered,
+      lossPercent: expected > 0 ? (lost / expected) * 100 : 0,
+      packetRate: (received * 1000) / spanMs,
+      jitterMs,
+    };
+  }
+
+  return { onPacket, getStats, reset };
+}
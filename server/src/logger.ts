@@ -1,50 +1,102 @@
 import fs from "node:fs";
 import path from "node:path";
-import type { TelemetryData } from "@opengt/shared/types";
-
-interface SessionMeta {
+import type {
+  GameId,
+  PacketFormat,
+  PitHistory,
+  PitStop,
+  StartReport,
+  Stint,
+  TelemetryData,
+  TrackInfo,
+} from "@opengt/shared/types";
+import {
+  CAPTURE_EXTENSION,
+  type CapturedDatagram,
+  type CaptureWriter,
+  createCaptureWriter,
+} from "./capture.js";
+
+export interface SessionMeta {
   startedAt: string;
   endedAt: string | null;
+  game: GameId;
   carCode: number;
+  track: TrackInfo | null; // once recognised from a learned lap
   totalLaps: number;
   bestLapTime: number;
+  pitStops: PitStop[]; // as of the session's end
+  stints: Stint[];
+  start: StartReport | null; // null without a race start
   packets: number;
+  captureFile: string | null; // raw .gtcap alongside the .ndjson, if capture was on
+  capturedDatagrams: number;
 }
 
 export interface TelemetryLogger {
   /** Called on every telemetry packet. Handles session start/stop internally. */
-  onPacket(data: TelemetryData): void;
+  onPacket(data: TelemetryData, format: PacketFormat): void;
+  /** Called on every received datagram. Written to the raw capture while a session is open. */
+  onDatagram(datagram: CapturedDatagram, format: PacketFormat): void;
   /** Graceful shutdown — flush and close current session. */
   close(): void;
 }
 
+export interface TelemetryLoggerOptions {
+  /** Whether new sessions also get a raw capture. Checked at session start. */
+  rawCapture?: () => boolean;
+  /** Added to session file names, e.g. the console address. */
+  label?: string;
+  /** The track being driven, if known. Checked on every logged packet. */
+  track?: () => TrackInfo | null;
+  /** Pit stops and stints so far. Checked at session end. */
+  pit?: () => PitHistory;
+  /** How the race started, if it did from a grid. Checked at session end. */
+  start?: () => StartReport | null;
+}
+
 const IDLE_TIMEOUT_MS = 30_000;
 
-export function createTelemetryLogger(dataDir: string): TelemetryLogger {
+export function createTelemetryLogger(
+  dataDir: string,
+  options: TelemetryLoggerOptions = {},
+): TelemetryLogger {
   fs.mkdirSync(dataDir, { recursive: true });
 
   let stream: fs.WriteStream | null = null;
+  let capture: CaptureWriter | null = null;
   let metaPath: string | null = null;
   let meta: SessionMeta | null = null;
   let wasOnTrack = false;
   let idleTimer: NodeJS.Timeout | null = null;
 
-  function startSession(data: TelemetryData): void {
+  function startSession(data: TelemetryData, format: PacketFormat): void {
     const now = new Date();
     const timestamp = now.toISOString().replace(/[:.]/g, "-").slice(0, 19);
-    const baseName = `${timestamp}_car-${data.carCode}`;
+    const baseName = `${timestamp}${options.label ? `_${options.label}` : ""}_car-${data.carCode}`;
 
     const sessionPath = path.join(dataDir, `${baseName}.ndjson`);
     metaPath = path.join(dataDir, `${baseName}.meta.json`);
 
     stream = fs.createWriteStream(sessionPath, { flags: "a" });
+
+    const captureFile = options.rawCapture?.() ? `${baseName}${CAPTURE_EXTENSION}` : null;
+    if (captureFile) capture = createCaptureWriter(path.join(dataDir, captureFile), format);
+
     meta = {
       startedAt: now.toISOString(),
       endedAt: null,
+      game: data.game,
       carCode: data.carCode,
+      track: null,
       totalLaps: data.totalLaps,
       bestLapTime: data.bestLapTime,
+      pitStops: [],
+      stints: [],
+      start: null,
       packets: 0,
+      captureFile,
+      capturedDatagrams: 0,
     };
 
     console.log(`[Logger] Session started: ${baseName}`);
@@ -54,12 +106,22 @@ export function createTelemetryLogger(dataDir: string): TelemetryLogger {
     if (!stream || !meta || !metaPath) return;
 
     meta.endedAt = new Date().toISOString();
+    const pit = options.pit?.();
+    if (pit) {
+      meta.pitStops = pit.stops;
+      meta.stints = pit.stints;
+    }
+    meta.start = options.start?.() ?? null;
     fs.writeFileSync(metaPath, JSON.stringify(meta, null, 2));
 
     stream.end();
-    console.log(`[Logger] Session ended: ${meta.packets} packets logged`);
+    capture?.close();
+    console.log(
+      `[Logger] Session ended: ${meta.packets} packets logged${meta.captureFile ? `, ${meta.capturedDatagrams} datagrams captured` : ""}`,
+    );
 
     stream = null;
+    capture = null;
     meta = null;
     metaPath = null;
   }
@@ -73,12 +135,12 @@ export function createTelemetryLogger(dataDir: string): TelemetryLogger {
     }, IDLE_TIMEOUT_MS);
   }
 
-  function onPacket(data: TelemetryData): void {
+  function onPacket(data: TelemetryData, format: PacketFormat): void {
     const onTrack = data.carOnTrack;
 
     // Transition: off → on track
     if (onTrack && !wasOnTrack) {
-      startSession(data);
+      startSession(data, format);
     }
 
     // Transition: on → off track
@@ -98,16 +160,23 @@ export function createTelemetryLogger(dataDir: string): TelemetryLogger {
         // Update rolling metadata
         if (data.bestLapTime > 0) meta.bestLapTime = data.bestLapTime;
         meta.totalLaps = data.totalLaps;
+        meta.track = options.track?.() ?? meta.track;
       }
 
       resetIdleTimer();
     }
   }
 
+  function onDatagram(datagram: CapturedDatagram, format: PacketFormat): void {
+    if (!capture || !meta) return;
+    capture.write(datagram, format);
+    meta.capturedDatagrams++;
+  }
+
   function close(): void {
     if (idleTimer) clearTimeout(idleTimer);
     endSession();
   }
 
-  return { onPacket, close };
+  return { onPacket, onDatagram, close };
 }
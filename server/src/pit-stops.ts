@@ -0,0 +1,223 @@
+import { CONSOLE_PACKET_HZ } from "@opengt/shared/constants";
+import type { PitHistory, PitStop, Stint, TelemetryData } from "@opengt/shared/types";
+
+const TICK_MS = 1000 / CONSOLE_PACKET_HZ;
+// Pit limiters sit between these; held this steady for this long, it's the limiter
+const LIMITER_MIN_KMH = 30;
+const LIMITER_MAX_KMH = 100;
+const LIMITER_BAND_KMH = 2;
+const LIMITER_HOLD_TICKS = 2 * CONSOLE_PACKET_HZ;
+// A limited run this recent before a stop was the way into the box, and the lane timed from it
+const ENTRY_LOOKBACK_TICKS = 30 * CONSOLE_PACKET_HZ;
+const STATIONARY_KMH = 1;
+const STOP_TICKS = 2 * CONSOLE_PACKET_HZ;
+const MIN_FUEL_ADDED = 0.5; // litres
+const TYRE_CHANGE_DROP = 10; // °C, average over the four tyres
+
+interface StintState {
+  number: number;
+  startLap: number;
+  endLap: number;
+  startFuel: number;
+  endFuel: number | null;
+  lapTimes: { lap: number; time: number }[];
+}
+
+export interface PitStopDetector {
+  /** Feed every on-track packet. Returns the pit stop completed at it (at pit exit), if any. */
+  onPacket(data: TelemetryData): PitStop | null;
+  /** In the pit lane or stopped in the box. */
+  inPitLane(): boolean;
+  history(): PitHistory;
+  /** Forget every stop and stint, e.g. for a new race. */
+  reset(): void;
+}
+
+function averageTemp(data: TelemetryData): number {
+  const { fl, fr, rl, rr } = data.tyreTemp;
+  return (fl + fr + rl + rr) / 4;
+}
+
+/**
+ * Pit stops from what changed in the box — fuel going up, tyres coming back cold — with the
+ * lane timed from the run on the pit limiter before it. Splits the race into stints.
+ */
+export function createPitStopDetector(): PitStopDetector {
+  let tick = 0;
+  let lastLapCount = -1;
+  let fuelNow = 0;
+
+  // The latest steady-speed run, and the last one long enough to be the limiter
+  let run: { speed: number; startTick: number; startLap: number } | null = null;
+  let limited: { startTick: number; startLap: number; endTick: number } | null = null;
+  let limitedNow = false;
+
+  // Stationary since, with what the car had when it stopped
+  let stationary: { startTick: number; fuel: number; tyreTemp: number; maxFuel: number } | null =
+    null;
+  // A stop is made; waiting for the car to leave the pit lane
+  let leaving: (Omit<PitStop, "laneTime"> & { entryTick: number }) | null = null;
+
+  let stops: PitStop[] = [];
+  let stints: StintState[] = [];
+  const pitLaps = new Set<number>();
+
+  function currentStint(): StintState | undefined {
+    return stints[stints.length - 1];
+  }
+
+  function trackLimiter(data: TelemetryData): void {
+    const speed = data.speed;
+    if (speed < LIMITER_MIN_KMH || speed > LIMITER_MAX_KMH) {
+      run = null;
+      limitedNow = false;
+      return;
+    }
+    if (!run || Math.abs(speed - run.speed) > LIMITER_BAND_KMH) {
+      run = { speed, startTick: tick, startLap: data.lapCount };
+      limitedNow = false;
+      return;
+    }
+    if (tick - run.startTick >= LIMITER_HOLD_TICKS) {
+      limitedNow = true;
+      limited = { startTick: run.startTick, startLap: run.startLap, endTick: tick };
+    }
+  }
+
+  /** The car just moved off after a stop: was it a pit stop? */
+  function endStop(data: TelemetryData): void {
+    if (!stationary) return;
+    const stop = stationary;
+    stationary = null;
+    const stationaryTicks = tick - stop.startTick;
+    if (stationaryTicks < STOP_TICKS) return;
+
+    const fuelAdded = stop.maxFuel - stop.fuel;
+    const tyresChanged = stop.tyreTemp - averageTemp(data) >= TYRE_CHANGE_DROP;
+    // A steady crawl and a stop is also a safety car or traffic; only work done in the box counts
+    if (fuelAdded < MIN_FUEL_ADDED && !tyresChanged) return;
+    const viaLimiter = !!limited && stop.startTick - limited.endTick <= ENTRY_LOOKBACK_TICKS;
+
+    const entryTick = viaLimiter && limited ? limited.startTick : stop.startTick;
+    const entryLap = viaLimiter && limited ? limited.startLap : data.lapCount;
+    leaving = {
+      lap: entryLap,
+      entryTick,
+      stationaryTime: Math.round(stationaryTicks * TICK_MS),
+      fuelAdded: Math.round(Math.max(0, fuelAdded) * 10) / 10,
+      tyresChanged,
+    };
+    for (let lap = entryLap; lap <= data.lapCount; lap++) pitLaps.add(lap);
+
+    // The stint ended where the car went in, with the fuel it had in the box
+    const stint = currentStint();
+    if (stint) {
+      stint.endLap = entryLap;
+      stint.endFuel = stop.fuel;
+    }
+    console.log(
+      `[Pit] Stop on lap ${entryLap}: ${(leaving.stationaryTime / 1000).toFixed(1)}s${leaving.fuelAdded > 0 ? `, +${leaving.fuelAdded} L` : ""}${tyresChanged ? ", tyres" : ""}`,
+    );
+  }
+
+  function onPacket(data: TelemetryData): PitStop | null {
+    if (data.paused || data.loading) return null;
+    tick++;
+    fuelNow = data.fuelLevel;
+
+    if (lastLapCount < 0) {
+      stints = [
+        {
+          number: 1,
+          startLap: data.lapCount,
+          endLap: -1,
+          startFuel: data.fuelLevel,
+          endFuel: null,
+          lapTimes: [],
+        },
+      ];
+    } else if (data.lapCount !== lastLapCount && data.lastLapTime > 0) {
+      currentStint()?.lapTimes.push({ lap: lastLapCount, time: data.lastLapTime });
+    }
+    lastLapCount = data.lapCount;
+
+    trackLimiter(data);
+
+    if (data.speed < STATIONARY_KMH) {
+      stationary ??= {
+        startTick: tick,
+        fuel: data.fuelLevel,
+        tyreTemp: averageTemp(data),
+        maxFuel: data.fuelLevel,
+      };
+      stationary.maxFuel = Math.max(stationary.maxFuel, data.fuelLevel);
+      return null;
+    }
+    endStop(data);
+
+    // Out of the pit lane once it's past the limiter
+    if (!leaving || data.speed <= LIMITER_MAX_KMH) return null;
+    const { entryTick, ...stop } = leaving;
+    const pitStop: PitStop = { ...stop, laneTime: Math.round((tick - entryTick) * TICK_MS) };
+    stops = [...stops, pitStop];
+    leaving = null;
+    pitLaps.add(data.lapCount);
+    stints = [
+      ...stints,
+      {
+        number: stints.length + 1,
+        startLap: data.lapCount,
+        endLap: -1,
+        startFuel: data.fuelLevel,
+        endFuel: null,
+        lapTimes: [],
+      },
+    ];
+    return pitStop;
+  }
+
+  function summarize(stint: StintState): Stint {
+    const clean = stint.lapTimes.filter(({ lap }) => !pitLaps.has(lap)).map(({ time }) => time);
+    return {
+      number: stint.number,
+      startLap: stint.startLap,
+      endLap: stint.endLap,
+      laps: stint.lapTimes.length,
+      fuelUsed: Math.round(Math.max(0, stint.startFuel - (stint.endFuel ?? fuelNow)) * 10) / 10,
+      averageLapTime:
+        clean.length > 0 ? Math.round(clean.reduce((sum, t) => sum + t, 0) / clean.length) : -1,
+      bestLapTime: clean.length > 0 ? Math.min(...clean) : -1,
+    };
+  }
+
+  function history(): PitHistory {
+    return {
+      inPitLane: inPitLane(),
+      stops: [...stops],
+      stints: stints.map(summarize),
+    };
+  }
+
+  function inPitLane(): boolean {
+    return (
+      limitedNow ||
+      leaving !== null ||
+      (stationary !== null && tick - stationary.startTick >= STOP_TICKS)
+    );
+  }
+
+  function reset(): void {
+    tick = 0;
+    lastLapCount = -1;
+    run = null;
+    limited = null;
+    limitedNow = false;
+    stationary = null;
+    leaving = null;
+    stops = [];
+    stints = [];
+    pitLaps.clear();
+  }
+
+  return { onPacket, inPitLane, history, reset };
+}
@@ -0,0 +1,155 @@
+import { CONSOLE_PACKET_HZ, WHEELSPIN_SLIP_RATIO } from "@opengt/shared/constants";
+import type { StartReport, TelemetryData } from "@opengt/shared/types";
+import { slipRatios } from "./wheel-slip.js";
+
+const TICK_MS = 1000 / CONSOLE_PACKET_HZ;
+// Slower than this at the green light, it's a standing start
+const STANDING_KMH = 5;
+const MOVING_KMH = 2;
+const THROTTLE_ON = 50; // % pedal
+const BRAKE_ON = 10; // % pedal
+// The launch is over after this long, if the car hasn't braked or reached 200 km/h first
+const LAUNCH_WINDOW_MS = 15_000;
+// Launch wheelspin starts well below the speed the lap-long detector trusts; under walking
+// pace the ratio is noise
+const MIN_SLIP_SPEED_MS = 2;
+const MIN_SPIN_MS = 1;
+
+export interface StartAnalyzer {
+  /** Feed every on-track packet. Returns the report once, as the launch ends. */
+  onPacket(data: TelemetryData): StartReport | null;
+  /** The start so far; null until the green light. */
+  report(): StartReport | null;
+  /** Forget the start, e.g. for a new race. */
+  reset(): void;
+}
+
+/** GT7 sends the grid slot and the size of the field until the race is under way. */
+function onGrid(data: TelemetryData): boolean {
+  return data.raceStartPosition > 0 && data.preRaceNumCars > 0;
+}
+
+/** Highest slip ratio of any wheel, and whether one is spinning. */
+function wheelspin(data: TelemetryData): { slip: number; spinning: boolean } {
+  const carSpeed = data.speed / 3.6;
+  const slip = Math.max(0, ...Object.values(slipRatios(data, MIN_SLIP_SPEED_MS)));
+  // A ratio means little just off the line, so a wheel must also outrun the car by MIN_SPIN_MS
+  const threshold = Math.max(
+    WHEELSPIN_SLIP_RATIO,
+    MIN_SPIN_MS / Math.max(carSpeed, MIN_SLIP_SPEED_MS),
+  );
+  return { slip, spinning: slip >= threshold };
+}
+
+/**
+ * The race start: armed while the car sits on the grid (or at lap 0 of a race with a lap
+ * count), triggered by the green light — the grid slot clearing, or lap 1 starting — and
+ * followed through the launch. Times run from the green light's packet, by packet id.
+ */
+export function createStartAnalyzer(): StartAnalyzer {
+  let armed = false;
+  let gridPosition = -1;
+  let cars = -1;
+  let report: StartReport | null = null;
+  let greenPacketId = 0;
+  let movingPacketId = -1;
+  let lastSpeed = 0;
+  let lastElapsed = 0;
+
+  /** Where between two packets the speed crossed a threshold, ms from moving off. */
+  function crossing(threshold: number, speed: number, elapsed: number): number {
+    const t = speed > lastSpeed ? (threshold - lastSpeed) / (speed - lastSpeed) : 1;
+    const at = lastElapsed + (elapsed - lastElapsed) * t;
+    return Math.round(at - (movingPacketId - greenPacketId) * TICK_MS);
+  }
+
+  function green(data: TelemetryData): void {
+    const standing = data.speed < STANDING_KMH;
+    const throttleAtGreen = data.throttle >= THROTTLE_ON;
+    greenPacketId = data.packetId;
+    movingPacketId = standing ? -1 : data.packetId;
+    report = {
+      kind: standing ? "standing" : "rolling",
+      gridPosition,
+      cars,
+      speedAtGreen: Math.round(data.speed),
+      launchGear: data.currentGear,
+      launchRpm: Math.round(data.engineRPM),
+      // A standing start with the throttle already down is timed to the car moving off
+      reactionTime: !standing && throttleAtGreen ? 0 : -1,
+      reactionFrom: standing && throttleAtGreen ? "movement" : "throttle",
+      wheelspinTime: 0,
+      peakSlip: 0,
+      zeroTo100: -1,
+      zeroTo200: -1,
+      complete: false,
+    };
+    console.log(
+      `[Start] Green: ${report.kind} start from P${gridPosition} of ${cars} at ${report.speedAtGreen} km/h, gear ${report.launchGear} at ${report.launchRpm} rpm`,
+    );
+  }
+
+  function follow(data: TelemetryData, start: StartReport): boolean {
+    const elapsed = (data.packetId - greenPacketId) * TICK_MS;
+    if (start.reactionTime < 0) {
+      const reacted =
+        start.reactionFrom === "movement" ? data.speed >= MOVING_KMH : data.throttle >= THROTTLE_ON;
+      if (reacted) start.reactionTime = Math.round(elapsed);
+    }
+    if (movingPacketId < 0 && data.speed >= MOVING_KMH) movingPacketId = data.packetId;
+
+    const spin = wheelspin(data);
+    start.peakSlip = Math.max(start.peakSlip, Math.round(spin.slip * 100) / 100);
+    if (spin.spinning) start.wheelspinTime = Math.round(start.wheelspinTime + TICK_MS);
+
+    if (start.kind === "standing" && movingPacketId >= 0) {
+      if (start.zeroTo100 < 0 && data.speed >= 100) {
+        start.zeroTo100 = crossing(100, data.speed, elapsed);
+      }
+      if (start.zeroTo200 < 0 && data.speed >= 200) {
+        start.zeroTo200 = crossing(200, data.speed, elapsed);
+      }
+    }
+    lastSpeed = data.speed;
+    lastElapsed = elapsed;
+
+    const braked = data.brake >= BRAKE_ON && (movingPacketId >= 0 || start.reactionTime >= 0);
+    return braked || data.speed >= 200 || elapsed >= LAUNCH_WINDOW_MS;
+  }
+
+  function onPacket(data: TelemetryData): StartReport | null {
+    if (!report) {
+      if (onGrid(data)) {
+        armed = true;
+        gridPosition = data.raceStartPosition;
+        cars = data.preRaceNumCars;
+      } else if (armed && (gridPosition > 0 || data.lapCount >= 1)) {
+        green(data);
+      } else if (data.lapCount === 0 && data.totalLaps > 0) {
+        armed = true;
+      }
+      if (!report) return null;
+    }
+    if (report.complete || data.paused || data.loading) return null;
+
+    if (!follow(data, report)) return null;
+    report.complete = true;
+    console.log(
+      `[Start] Launch done: reaction ${report.reactionTime}ms, wheelspin ${report.wheelspinTime}ms, 0-100 ${report.zeroTo100}ms, 0-200 ${report.zeroTo200}ms`,
+    );
+    return { ...report };
+  }
+
+  function reset(): void {
+    armed = false;
+    gridPosition = -1;
+    cars = -1;
+    report = null;
+    greenPacketId = 0;
+    movingPacketId = -1;
+    lastSpeed = 0;
+    lastElapsed = 0;
+  }
+
+  return { onPacket, report: () => (report ? { ...report } : null), reset };
+}
@@ -0,0 +1,63 @@
+import dgram from "node:dgram";
+import type { PacketFormat, RelayTarget } from "@opengt/shared/types";
+import { decryptPacket } from "./telemetry.js";
+
+/**
+ * The console only streams to whoever sent the last heartbeat. With the relay, Open GT
+ * owns the heartbeat and forwards a copy of each datagram to other local tools.
+ */
+export interface TelemetryRelay {
+  /** Replace the destination list. An empty list closes the socket. */
+  setTargets(targets: RelayTarget[]): void;
+  /** Forward one console datagram to every target. */
+  onDatagram(bytes: Buffer, format: PacketFormat): void;
+  close(): void;
+}
+
+export function createTelemetryRelay(): TelemetryRelay {
+  let targets: RelayTarget[] = [];
+  let socket: dgram.Socket | null = null;
+
+  function setTargets(next: RelayTarget[]): void {
+    const wasOn = targets.length > 0;
+    targets = next;
+    if (targets.length > 0 && !socket) {
+      socket = dgram.createSocket("udp4");
+      socket.on("error", (err) => console.error("[Relay] Socket error:", err.message));
+    } else if (targets.length === 0) {
+      close();
+    }
+    if (targets.length > 0) {
+      console.log(
+        `[Relay] Forwarding to ${targets.map((t) => `${t.host}:${t.port} (${t.mode})`).join(", ")}`,
+      );
+    } else if (wasOn) {
+      console.log("[Relay] Off");
+    }
+  }
+
+  function onDatagram(bytes: Buffer, format: PacketFormat): void {
+    if (!socket || targets.length === 0) return;
+
+    // Decrypt at most once per datagram, and only if someone wants plaintext
+    let decrypted: Buffer | null | undefined;
+    for (const target of targets) {
+      let payload = bytes;
+      if (target.mode === "decrypted") {
+        if (decrypted === undefined) decrypted = decryptPacket(bytes, format)?.buf ?? null;
+        if (!decrypted) continue;
+        payload = decrypted;
+      }
+      socket.send(payload, target.port, target.host, (err) => {
+        if (err) console.error(`[Relay] Send error (${target.host}:${target.port}):`, err.message);
+      });
+    }
+  }
+
+  function close(): void {
+    socket?.close();
+    socket = null;
+  }
+
+  return { setTargets, onDatagram, close };
+}
@@ -0,0 +1,48 @@
+import fs from "node:fs";
+import path from "node:path";
+import { CAPTURE_EXTENSION, readCapture, readCaptureHeader } from "./capture.js";
+import { processPacket } from "./telemetry.js";
+
+/**
+ * Re-run a raw capture through the current parser and write the result as NDJSON,
+ * in the same shape the logger uses.
+ *
+ *   pnpm reparse data/sessions/<session>.gtcap [out.ndjson]
+ */
+async function main(): Promise<void> {
+  const [input, output] = process.argv.slice(2);
+  if (!input) {
+    console.error(`Usage: reparse <file${CAPTURE_EXTENSION}> [out.ndjson]`);
+    process.exit(1);
+  }
+
+  const inputPath = path.resolve(input);
+  const outputPath = path.resolve(
+    output ?? inputPath.replace(new RegExp(`${CAPTURE_EXTENSION}$`), ".reparsed.ndjson"),
+  );
+  const { startedAt } = readCaptureHeader(inputPath);
+  const out = fs.createWriteStream(outputPath);
+
+  let records = 0;
+  let parsed = 0;
+  const formats = new Set<string>();
+  for await (const record of readCapture(inputPath)) {
+    records++;
+    formats.add(record.format);
+    const data = processPacket(record.datagram, record.format);
+    if (!data) continue;
+    parsed++;
+    const timestamp = Math.round(startedAt + Number(record.receivedAtNs) / 1e6);
+    out.write(`${JSON.stringify({ timestamp, data })}\n`);
+  }
+  out.end();
+
+  console.log(
+    `[Reparse] ${parsed}/${records} datagrams parsed (format ${[...formats].map((f) => `"${f}"`).join(", ")}) → ${path.basename(outputPath)}`,
+  );
+}
+
+main().catch((err) => {
+  console.error("[Reparse] Failed:", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,43 @@
+import fs from "node:fs";
+import path from "node:path";
+
+interface StoredSplits {
+  trackId: string; // from the track database
+  splits: number[]; // lap fractions
+}
+
+export interface SectorSplitStore {
+  /** User-picked splits for this track, null if it uses automatic sectors. */
+  find(trackId: string): number[] | null;
+  /** Keep splits for this track; null goes back to automatic sectors. */
+  save(trackId: string, splits: number[] | null): void;
+}
+
+/** User-picked sector splits per track, in data/sector-splits.json. */
+export function createSectorSplitStore(dataDir: string): SectorSplitStore {
+  const filePath = path.join(dataDir, "sector-splits.json");
+  let tracks: StoredSplits[] = load();
+
+  function load(): StoredSplits[] {
+    if (!fs.existsSync(filePath)) return [];
+    try {
+      const stored = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+      return Array.isArray(stored) ? stored : [];
+    } catch {
+      return [];
+    }
+  }
+
+  function find(trackId: string): number[] | null {
+    return tracks.find((track) => track.trackId === trackId)?.splits ?? null;
+  }
+
+  function save(trackId: string, splits: number[] | null): void {
+    tracks = tracks.filter((track) => track.trackId !== trackId);
+    if (splits) tracks.push({ trackId, splits });
+    fs.mkdirSync(dataDir, { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(tracks, null, 2));
+  }
+
+  return { find, save };
+}
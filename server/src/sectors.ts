@@ -0,0 +1,205 @@
+import type { SectorStatus, SectorTiming } from "@opengt/shared/types";
+import type { LapProgress, ReferenceLap } from "./lap-delta.js";
+
+const AUTO_SECTOR_SPLITS = [1 / 3, 2 / 3];
+const MAX_SECTORS = 10;
+// A split this close to the line or another split would make a sector too short to mean much
+const MIN_SECTOR_FRACTION = 0.02;
+const MAX_JUMP_FRACTION = 0.05; // a bigger gap between packets can't place a crossing
+
+export interface CompletedSector {
+  sector: number;
+  time: number; // ms
+  status: SectorStatus;
+}
+
+export interface SectorTimer {
+  /**
+   * Feed every on-track packet with the lap progress and, when the lap delta just timed one,
+   * the completed lap. Returns the sector finished at this packet, if any.
+   */
+  onPacket(
+    lapCount: number,
+    progress: LapProgress | null,
+    completed: ReferenceLap | null,
+  ): CompletedSector | null;
+  /** Split the lap at these fractions; null = automatic thirds. Clears the session's times. */
+  setSplits(splits: number[] | null): void;
+  /** Current timing, without the map positions of the splits. */
+  state(): Omit<SectorTiming, "splitPoints">;
+  /** Forget every time, e.g. for a new race. The splits stay. */
+  reset(): void;
+}
+
+/** Sorted, de-duplicated splits that leave every sector a usable length. */
+function normalizeSplits(splits: number[]): number[] {
+  const sorted = splits
+    .filter((f) => Number.isFinite(f) && f >= MIN_SECTOR_FRACTION && f <= 1 - MIN_SECTOR_FRACTION)
+    .sort((a, b) => a - b);
+  const result: number[] = [];
+  for (const f of sorted) {
+    const previous = result[result.length - 1] ?? 0;
+    if (f - previous >= MIN_SECTOR_FRACTION) result.push(f);
+  }
+  return result.slice(0, MAX_SECTORS - 1);
+}
+
+/**
+ * Sector times from lap progress. Intermediate splits are timed as the car crosses them;
+ * the last sector ends at the line, so it's timed once the lap delta has the official lap
+ * time.
+ */
+export function createSectorTimer(): SectorTimer {
+  let splits = AUTO_SECTOR_SPLITS;
+  let custom = false;
+
+  let lastLapCount = -1;
+  let previous: LapProgress | null = null;
+  // Lap time at each boundary of the lap in progress: [line, split 1, split 2, …]
+  let crossings: (number | null)[] = [];
+  // The lap just finished, waiting for its official time to time the last sector
+  let finishing: { sectors: number[]; lastCrossing: number } | null = null;
+  let lapSectors: number[] = [];
+
+  let last: number[] = [];
+  let lastDelta: (number | null)[] = [];
+  let lastStatus: SectorStatus[] = [];
+  let best: number[] = [];
+  let bestLap: { lapTime: number; sectors: number[] } | null = null;
+  let lastCompleted: CompletedSector | null = null;
+
+  function sectorCount(): number {
+    return splits.length + 1;
+  }
+
+  function clearTimes(): void {
+    const n = sectorCount();
+    last = new Array(n).fill(-1);
+    lastDelta = new Array(n).fill(null);
+    lastStatus = new Array(n).fill("none");
+    best = new Array(n).fill(-1);
+    bestLap = null;
+    lastCompleted = null;
+    lapSectors = new Array(n).fill(-1);
+    crossings = new Array(n).fill(null);
+    finishing = null;
+  }
+
+  function record(sector: number, time: number): CompletedSector {
+    const previousBest = best[sector];
+    const status: SectorStatus =
+      previousBest < 0
+        ? "none"
+        : time < previousBest
+          ? "purple"
+          : bestLap && time < bestLap.sectors[sector]
+            ? "green"
+            : "yellow";
+    last[sector] = time;
+    lastDelta[sector] = previousBest < 0 ? null : time - previousBest;
+    lastStatus[sector] = status;
+    if (previousBest < 0 || time < previousBest) best[sector] = time;
+    lastCompleted = { sector, time, status };
+    return lastCompleted;
+  }
+
+  function onLapChange(lapCount: number): void {
+    const lastCrossing = crossings[splits.length];
+    finishing =
+      lastLapCount >= 1 && lapCount === lastLapCount + 1 && lastCrossing != null
+        ? { sectors: lapSectors, lastCrossing }
+        : null;
+    // The first sector starts at the line — if this lap was seen starting
+    const fromLine = lapCount >= 1 && lastLapCount >= 0;
+    crossings = new Array(sectorCount()).fill(null);
+    crossings[0] = fromLine ? 0 : null;
+    lapSectors = new Array(sectorCount()).fill(-1);
+    previous = fromLine ? { fraction: 0, time: 0 } : null;
+    lastLapCount = lapCount;
+  }
+
+  function onPacket(
+    lapCount: number,
+    progress: LapProgress | null,
+    completed: ReferenceLap | null,
+  ): CompletedSector | null {
+    if (lapCount !== lastLapCount) onLapChange(lapCount);
+    let timed: CompletedSector | null = null;
+
+    if (completed && finishing) {
+      const sector = splits.length;
+      timed = record(sector, Math.round(completed.lapTime - finishing.lastCrossing));
+      const sectors = [...finishing.sectors.slice(0, sector), timed.time];
+      if (sectors.every((t) => t >= 0) && (!bestLap || completed.lapTime < bestLap.lapTime)) {
+        bestLap = { lapTime: completed.lapTime, sectors };
+      }
+      finishing = null;
+    }
+
+    if (!progress) {
+      previous = null;
+      return timed;
+    }
+    if (previous && progress.fraction > previous.fraction) {
+      if (progress.fraction - previous.fraction <= MAX_JUMP_FRACTION) {
+        for (let k = 0; k < splits.length; k++) {
+          const split = splits[k];
+          if (split <= previous.fraction || split > progress.fraction) continue;
+          const at =
+            previous.time +
+            ((progress.time - previous.time) * (split - previous.fraction)) /
+              (progress.fraction - previous.fraction);
+          crossings[k + 1] = at;
+          const start = crossings[k];
+          if (start == null) continue;
+          timed = record(k, Math.round(at - start));
+          lapSectors[k] = timed.time;
+        }
+      }
+      previous = progress;
+    } else if (!previous) {
+      previous = progress;
+    }
+    return timed;
+  }
+
+  function currentSector(): number {
+    if (!previous) return -1;
+    const fraction = previous.fraction;
+    const index = splits.findIndex((split) => fraction < split);
+    return index < 0 ? splits.length : index;
+  }
+
+  function state(): Omit<SectorTiming, "splitPoints"> {
+    return {
+      splits: [...splits],
+      custom,
+      current: currentSector(),
+      last: [...last],
+      lastDelta: [...lastDelta],
+      lastStatus: [...lastStatus],
+      best: [...best],
+      theoreticalBest: best.every((t) => t >= 0) ? best.reduce((sum, t) => sum + t, 0) : -1,
+      lastCompleted,
+    };
+  }
+
+  function setSplits(next: number[] | null): void {
+    const normalized = next ? normalizeSplits(next) : [];
+    custom = normalized.length > 0;
+    splits = custom ? normalized : AUTO_SECTOR_SPLITS;
+    // Times from other splits don't compare; the lap in progress is timed from the next line
+    clearTimes();
+    previous = null;
+  }
+
+  function reset(): void {
+    clearTimes();
+    lastLapCount = -1;
+    previous = null;
+  }
+
+  clearTimes();
+
+  return { onPacket, setSplits, state, reset };
+}
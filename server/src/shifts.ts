@@ -0,0 +1,283 @@
+import { CONSOLE_PACKET_HZ } from "@opengt/shared/constants";
+import type {
+  GearInfo,
+  ShiftAnalysis,
+  ShiftEvent,
+  ShiftQuality,
+  ShiftVerdict,
+  TelemetryData,
+} from "@opengt/shared/types";
+
+const RPM_BIN = 250;
+// A bin needs this many full-throttle samples before its acceleration counts
+const MIN_SAMPLES = 5;
+const FULL_THROTTLE = 95; // % pedal
+const MIN_SPEED_KMH = 10;
+// The car surges and settles after a shift; these packets say nothing about the engine
+const SETTLE_TICKS = CONSOLE_PACKET_HZ / 3;
+// Data this close to the redline without the next gear ever pulling harder: shift at the redline
+const REDLINE_REACH_RPM = 500;
+// Within this of the best upshift is good
+const SHIFT_TOLERANCE_RPM = 300;
+// The limiter this recently before the shift means it bounced off it
+const LIMITER_WINDOW_TICKS = CONSOLE_PACKET_HZ / 2;
+const UPSHIFT_THROTTLE = 80; // % pedal; lifting to shift is a different thing
+const IGNORED_SUGGESTION_TICKS = 2 * CONSOLE_PACKET_HZ;
+
+interface Bin {
+  sum: number;
+  count: number;
+}
+
+export interface ShiftAnalyzer {
+  /** Feed every on-track packet with the car's longitudinal acceleration, g. Returns the upshift made at it. */
+  onPacket(data: TelemetryData, longitudinalG: number): ShiftEvent | null;
+  state(): ShiftAnalysis;
+  /** Forget the laps, e.g. for a new race. What's learned about the car stays until it changes. */
+  reset(): void;
+}
+
+function noQuality(): ShiftQuality {
+  return {
+    shifts: 0,
+    good: 0,
+    early: 0,
+    late: 0,
+    limiter: 0,
+    ignoredSuggestions: 0,
+    score: -1,
+    worstGear: -1,
+  };
+}
+
+function isGear(gear: number): boolean {
+  return gear >= 1 && gear <= 8;
+}
+
+/**
+ * When to upshift, learned from the car itself: full-throttle acceleration against RPM in each
+ * gear. The best upshift out of a gear is the lowest RPM at which the next gear, at the same road
+ * speed, pulls harder — or the redline if it never does. Each upshift under power is then
+ * judged against it, lap by lap.
+ */
+export function createShiftAnalyzer(): ShiftAnalyzer {
+  let carCode = -1;
+  // Acceleration by gear, then RPM bin
+  let curves = new Map<number, Map<number, Bin>>();
+  // speed × gear ratio / rpm is fixed by the final drive and tyres
+  let speedFactor = 0;
+  let speedSamples = 0;
+  let ratios: number[] = [];
+  let redline = 0;
+  let shiftPoints = new Map<number, number>();
+  let curvesChanged = false;
+
+  let tick = 0;
+  let lastGear = -1;
+  let lastRpm = 0;
+  let lastThrottle = 0;
+  let lastLimiterTick = Number.NEGATIVE_INFINITY;
+  let lastShiftTick = Number.NEGATIVE_INFINITY;
+  let suggestionSince = -1;
+  let suggestionCounted = false;
+
+  let lapCount = -1;
+  let lap = noQuality();
+  let lastLap = noQuality();
+  let lapFaults = new Map<number, number>();
+  let lastShift: ShiftEvent | null = null;
+
+  function forgetCar(): void {
+    curves = new Map();
+    speedFactor = 0;
+    speedSamples = 0;
+    ratios = [];
+    redline = 0;
+    shiftPoints = new Map();
+    curvesChanged = false;
+  }
+
+  function accelerationAt(gear: number, rpm: number): number | null {
+    const bins = curves.get(gear);
+    if (!bins) return null;
+    // Linear between the two bins either side, if both have enough samples
+    const at = rpm / RPM_BIN - 0.5;
+    const lower = bins.get(Math.floor(at));
+    const upper = bins.get(Math.ceil(at));
+    if (!lower || !upper || lower.count < MIN_SAMPLES || upper.count < MIN_SAMPLES) return null;
+    const t = at - Math.floor(at);
+    return (lower.sum / lower.count) * (1 - t) + (upper.sum / upper.count) * t;
+  }
+
+  function findShiftPoint(gear: number): number | null {
+    const ratio = ratios[gear - 1];
+    const nextRatio = ratios[gear];
+    const bins = curves.get(gear);
+    if (!bins || !(ratio > 0) || !(nextRatio > 0)) return null;
+    const learned = [...bins.entries()]
+      .filter(([, bin]) => bin.count >= MIN_SAMPLES)
+      .map(([index]) => index)
+      .sort((a, b) => a - b);
+    if (learned.length === 0) return null;
+
+    let compared = false;
+    for (const index of learned) {
+      const rpm = (index + 0.5) * RPM_BIN;
+      const here = accelerationAt(gear, rpm);
+      const next = accelerationAt(gear + 1, (rpm * nextRatio) / ratio);
+      if (here === null || next === null) continue;
+      compared = true;
+      if (next > here) return rpm;
+    }
+    const highest = (learned[learned.length - 1] + 1) * RPM_BIN;
+    return compared && redline > 0 && highest >= redline - REDLINE_REACH_RPM ? redline : null;
+  }
+
+  function updateShiftPoints(): void {
+    if (!curvesChanged) return;
+    curvesChanged = false;
+    for (let gear = 1; gear < ratios.length; gear++) {
+      const rpm = findShiftPoint(gear);
+      if (rpm === null) shiftPoints.delete(gear);
+      else shiftPoints.set(gear, Math.round(rpm));
+    }
+  }
+
+  function learn(data: TelemetryData, longitudinalG: number): void {
+    const gear = data.currentGear;
+    if (
+      !isGear(gear) ||
+      data.throttle < FULL_THROTTLE ||
+      data.brake > 0 ||
+      data.clutch > 0.1 ||
+      data.tcsActive ||
+      data.speed < MIN_SPEED_KMH ||
+      tick - lastShiftTick < SETTLE_TICKS
+    ) {
+      return;
+    }
+    const ratio = ratios[gear - 1];
+    if (ratio > 0 && data.engineRPM > 0) {
+      speedFactor += ((data.speed * ratio) / data.engineRPM - speedFactor) / ++speedSamples;
+    }
+    let bins = curves.get(gear);
+    if (!bins) {
+      bins = new Map();
+      curves.set(gear, bins);
+    }
+    const index = Math.floor(data.engineRPM / RPM_BIN);
+    const bin = bins.get(index) ?? { sum: 0, count: 0 };
+    bin.sum += longitudinalG;
+    bin.count++;
+    bins.set(index, bin);
+    if (bin.count >= MIN_SAMPLES) curvesChanged = true;
+  }
+
+  function judge(fromGear: number, rpm: number): ShiftEvent {
+    updateShiftPoints();
+    const optimal = shiftPoints.get(fromGear) ?? -1;
+    let verdict: ShiftVerdict | null = null;
+    if (tick - lastLimiterTick <= LIMITER_WINDOW_TICKS) verdict = "limiter";
+    else if (optimal > 0 && rpm < optimal - SHIFT_TOLERANCE_RPM) verdict = "early";
+    else if (optimal > 0 && rpm > optimal + SHIFT_TOLERANCE_RPM) verdict = "late";
+    else if (optimal > 0) verdict = "good";
+    return { lap: lapCount, fromGear, rpm: Math.round(rpm), optimalRpm: optimal, verdict };
+  }
+
+  function count(shift: ShiftEvent): void {
+    lap.shifts++;
+    if (shift.verdict) lap[shift.verdict]++;
+    if (shift.verdict && shift.verdict !== "good") {
+      lapFaults.set(shift.fromGear, (lapFaults.get(shift.fromGear) ?? 0) + 1);
+      let worst = -1;
+      for (const [gear, faults] of lapFaults) {
+        if (worst < 0 || faults > (lapFaults.get(worst) ?? 0)) worst = gear;
+      }
+      lap.worstGear = worst;
+    }
+    const judged = lap.good + lap.early + lap.late + lap.limiter;
+    lap.score = judged > 0 ? lap.good / judged : -1;
+  }
+
+  function watchSuggestion(data: TelemetryData): void {
+    const suggested = data.suggestedGear;
+    if (!isGear(suggested) || suggested === data.currentGear) {
+      suggestionSince = -1;
+      suggestionCounted = false;
+      return;
+    }
+    if (suggestionSince < 0) suggestionSince = tick;
+    if (!suggestionCounted && tick - suggestionSince >= IGNORED_SUGGESTION_TICKS) {
+      lap.ignoredSuggestions++;
+      suggestionCounted = true;
+    }
+  }
+
+  function onPacket(data: TelemetryData, longitudinalG: number): ShiftEvent | null {
+    if (data.carCode !== carCode) {
+      forgetCar();
+      carCode = data.carCode;
+    }
+    ratios = data.gearRatios.filter((ratio) => ratio > 0);
+    if (data.maxAlertRPM > 0) redline = data.maxAlertRPM;
+
+    if (data.lapCount !== lapCount) {
+      if (lapCount >= 0) lastLap = lap;
+      lap = noQuality();
+      lapFaults = new Map();
+      lapCount = data.lapCount;
+    }
+
+    tick++;
+    if (data.revLimiter) lastLimiterTick = tick;
+    watchSuggestion(data);
+
+    // Between gears the game reports neutral; a shift is the next real gear
+    const gear = data.currentGear;
+    if (!isGear(gear)) return null;
+    let shift: ShiftEvent | null = null;
+    if (lastGear > 0 && gear !== lastGear) {
+      lastShiftTick = tick;
+      if (gear === lastGear + 1 && lastThrottle >= UPSHIFT_THROTTLE) {
+        shift = judge(lastGear, lastRpm);
+        count(shift);
+        lastShift = shift;
+      }
+    }
+    learn(data, longitudinalG);
+    lastGear = gear;
+    lastRpm = data.engineRPM;
+    lastThrottle = data.throttle;
+    return shift;
+  }
+
+  function state(): ShiftAnalysis {
+    updateShiftPoints();
+    const gears: GearInfo[] = ratios.map((ratio, i) => ({
+      gear: i + 1,
+      ratio,
+      speedAtRedline:
+        speedFactor > 0 && redline > 0 ? Math.round((speedFactor * redline) / ratio) : -1,
+      shiftRpm: shiftPoints.get(i + 1) ?? -1,
+    }));
+    return { redline, gears, lap: { ...lap }, lastLap: { ...lastLap }, lastShift };
+  }
+
+  function reset(): void {
+    tick = 0;
+    lastGear = -1;
+    lastRpm = 0;
+    lastThrottle = 0;
+    lastLimiterTick = Number.NEGATIVE_INFINITY;
+    lastShiftTick = Number.NEGATIVE_INFINITY;
+    suggestionSince = -1;
+    suggestionCounted = false;
+    lapCount = -1;
+    lap = noQuality();
+    lastLap = noQuality();
+    lapFaults = new Map();
+    lastShift = null;
+  }
+
+  return { onPacket, state, reset };
+}
@@ -0,0 +1,179 @@
+import dgram from "node:dgram";
+import {
+  CONSOLE_PACKET_HZ,
+  GAMES,
+  GT7_RECV_PORT,
+  GT7_SEND_PORT,
+  HEARTBEAT_INTERVAL_MS,
+} from "@opengt/shared/constants";
+import type { GameId, PacketFormat, TelemetryData } from "@opengt/shared/types";
+import { isPacketFormat } from "./config.js";
+import { createSyntheticCar, type SyntheticCar } from "./sources/synthetic.js";
+import { encodePacket } from "./telemetry.js";
+
+/**
+ * Stand-in for a GT7 console: answers heartbeats on 33739 and streams encrypted
+ * packets to the sender on 33740 at 60Hz, exactly like the real thing.
+ *
+ *   pnpm simulate [laps] [gt7|gtsport]
+ *
+ * As GT Sport it uses that game's key and magic and only ever sends the "A" layout.
+ * Then run the server with PS5_IP=127.0.0.1 (or let broadcast discovery find it).
+ */
+
+// The console keeps streaming for a while after the last heartbeat, then gives up
+const HEARTBEAT_TIMEOUT_MS = HEARTBEAT_INTERVAL_MS * 1.5;
+
+// Flag bits, as parsed in telemetry.ts
+const FLAG_ON_TRACK = 1;
+const FLAG_PAUSED = 2;
+const FLAG_LOADING = 4;
+
+const LOADING_SECONDS = 3;
+const PAUSE_SECONDS = 5;
+const MENU_SECONDS = 8;
+
+type Phase = "loading" | "racing" | "paused" | "menu";
+
+interface Listener {
+  format: PacketFormat;
+  lastHeartbeat: number;
+}
+
+function isGame(value: string): value is GameId {
+  return value in GAMES;
+}
+
+/**
+ * The scripted session: load into the track, race, pause mid-race, race on, back to the
+ * menu, repeat. The car only moves while racing; packetId keeps counting regardless.
+ */
+function createScenario(laps: number, game: GameId) {
+  let car: SyntheticCar = createSyntheticCar();
+  let last: TelemetryData = car.step();
+  let phase: Phase = "loading";
+  let phaseTicks = 0;
+  let pausedThisRace = false;
+  let packetId = 0;
+
+  function enter(next: Phase): void {
+    phase = next;
+    phaseTicks = 0;
+    console.log(`[Simulator] ${next}${next === "racing" ? ` (lap ${last.lapCount}/${laps})` : ""}`);
+  }
+
+  function flagsFor(current: Phase, carFlags: number): number {
+    switch (current) {
+      case "loading":
+        return FLAG_LOADING;
+      case "paused":
+        return carFlags | FLAG_PAUSED;
+      case "menu":
+        return 0;
+      default:
+        return carFlags | FLAG_ON_TRACK;
+    }
+  }
+
+  function tick(): TelemetryData {
+    packetId++;
+    phaseTicks++;
+    const seconds = phaseTicks / CONSOLE_PACKET_HZ;
+
+    switch (phase) {
+      case "loading":
+        if (seconds >= LOADING_SECONDS) enter("racing");
+        break;
+      case "racing": {
+        const lapBefore = last.lapCount;
+        last = car.step();
+        if (last.lapCount !== lapBefore) {
+          if (last.lapCount > laps) enter("menu");
+          else if (!pausedThisRace && last.lapCount > laps / 2) {
+            pausedThisRace = true;
+            enter("paused");
+          }
+        }
+        break;
+      }
+      case "paused":
+        if (seconds >= PAUSE_SECONDS) enter("racing");
+        break;
+      case "menu":
+        if (seconds >= MENU_SECONDS) {
+          car = createSyntheticCar();
+          last = car.step();
+          pausedThisRace = false;
+          enter("loading");
+        }
+        break;
+    }
+
+    return { ...last, game, packetId, flags: flagsFor(phase, last.flags) };
+  }
+
+  return { tick };
+}
+
+function main(): void {
+  const laps = Number(process.argv[2]) || 5;
+  const gameArg = process.argv[3] ?? "gt7";
+  if (!isGame(gameArg)) {
+    console.error(
+      `[Simulator] Unknown game "${gameArg}" — expected ${Object.keys(GAMES).join(" or ")}`,
+    );
+    process.exit(1);
+  }
+  const game = gameArg;
+  const scenario = createScenario(laps, game);
+  const listeners = new Map<string, Listener>();
+  const socket = dgram.createSocket({ type: "udp4", reuseAddr: true });
+
+  socket.on("message", (msg, rinfo) => {
+    const char = msg.toString("ascii", 0, 1);
+    if (!isPacketFormat(char)) return;
+    if (!listeners.has(rinfo.address)) {
+      console.log(`[Simulator] Heartbeat from ${rinfo.address} (format "${char}")`);
+    }
+    listeners.set(rinfo.address, { format: char, lastHeartbeat: Date.now() });
+  });
+
+  socket.bind(GT7_SEND_PORT, () => {
+    socket.setBroadcast(true);
+    console.log(
+      `[Simulator] ${GAMES[game].name} listening for heartbeats on ${GT7_SEND_PORT} (${laps} laps per race)`,
+    );
+  });
+
+  const startedAt = performance.now();
+  let sent = 0;
+
+  // Timers drift — send however many ticks are due so the rate stays at 60Hz
+  const timer = setInterval(() => {
+    const due = Math.floor(((performance.now() - startedAt) / 1000) * CONSOLE_PACKET_HZ);
+    while (sent < due) {
+      const data = scenario.tick();
+      sent++;
+
+      const now = Date.now();
+      for (const [address, listener] of listeners) {
+        if (now - listener.lastHeartbeat > HEARTBEAT_TIMEOUT_MS) {
+          listeners.delete(address);
+          console.log(`[Simulator] No heartbeat from ${address}, stopped sending`);
+          continue;
+        }
+        socket.send(encodePacket(data, listener.format), GT7_RECV_PORT, address);
+      }
+    }
+  }, 1000 / CONSOLE_PACKET_HZ);
+
+  function shutdown(): void {
+    clearInterval(timer);
+    socket.close();
+    process.exit(0);
+  }
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main();
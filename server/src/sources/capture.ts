@@ -0,0 +1,69 @@
+import path from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { readCapture } from "../capture.js";
+import { processPacket } from "../telemetry.js";
+import type { SourcePacket, TelemetrySource } from "./index.js";
+
+export interface CaptureReplayOptions {
+  filePath: string;
+  speed: number;
+  loop: boolean;
+}
+
+/** Replays a raw capture through the real decrypt + parse path. */
+export function createCaptureSource(
+  options: CaptureReplayOptions,
+  emit: (packet: SourcePacket) => void,
+): TelemetrySource {
+  const { filePath, speed, loop } = options;
+  let abort: AbortController | null = null;
+
+  async function play(signal: AbortSignal): Promise<void> {
+    do {
+      let previous: bigint | null = null;
+      for await (const record of readCapture(filePath)) {
+        if (signal.aborted) return;
+
+        if (previous !== null && record.receivedAtNs > previous) {
+          const delayMs = Number(record.receivedAtNs - previous) / 1e6 / speed;
+          await sleep(delayMs, undefined, { signal });
+        }
+        previous = record.receivedAtNs;
+
+        const data = processPacket(record.datagram, record.format);
+        if (!data) continue;
+        emit({
+          data,
+          raw: {
+            bytes: record.datagram,
+            address: record.address,
+            port: record.port,
+            receivedAt: record.receivedAtNs,
+          },
+          format: record.format,
+        });
+      }
+    } while (loop && !signal.aborted);
+
+    console.log(`[Source] Capture replay finished: ${path.basename(filePath)}`);
+  }
+
+  function start(): void {
+    if (abort) return;
+    abort = new AbortController();
+    console.log(
+      `[Source] Replaying capture ${path.basename(filePath)} at ${speed}x${loop ? " (loop)" : ""}`,
+    );
+    play(abort.signal).catch((err) => {
+      if (err instanceof Error && err.name === "AbortError") return;
+      console.error("[Source] Capture replay failed:", err instanceof Error ? err.message : err);
+    });
+  }
+
+  function stop(): void {
+    abort?.abort();
+    abort = null;
+  }
+
+  return { kind: "capture", start, stop };
+}
@@ -0,0 +1,108 @@
+import fs from "node:fs";
+import path from "node:path";
+import type {
+  ConsoleLinkState,
+  ConsoleTargetConfig,
+  PacketFormat,
+  TelemetryData,
+  TelemetrySourceConfig,
+  TelemetrySourceKind,
+} from "@opengt/shared/types";
+import { CAPTURE_EXTENSION, type CapturedDatagram } from "../capture.js";
+import { createCaptureSource } from "./capture.js";
+import { createLiveSource } from "./live.js";
+import { createReplaySource } from "./replay.js";
+import { createSyntheticSource } from "./synthetic.js";
+
+export interface SourcePacket {
+  data: TelemetryData;
+  /** Encrypted datagram as received, for sources that have one (live, capture) */
+  raw?: CapturedDatagram;
+  format: PacketFormat;
+}
+
+export interface TelemetrySource {
+  readonly kind: TelemetrySourceKind;
+  /** Begin emitting packets. */
+  start(): void;
+  /** Stop emitting and release sockets, files and timers. */
+  stop(): void;
+}
+
+export interface SourceContext {
+  /** Called for every packet the source produces. */
+  emit(packet: SourcePacket): void;
+  /** Packet format requested from the console. */
+  getFormat(): PacketFormat;
+  /** Pinned consoles, broadcast interfaces and heartbeat interval. */
+  getConsoleTarget(): ConsoleTargetConfig;
+  /** Console link state changes, from the live source. */
+  onConsoleState(state: ConsoleLinkState): void;
+  /** Where recordings live; relative file names resolve against it. */
+  recordingsDir: string;
+}
+
+const SOURCE_KINDS: TelemetrySourceKind[] = ["live", "replay", "capture", "synthetic"];
+
+export function isSourceKind(value: unknown): value is TelemetrySourceKind {
+  return SOURCE_KINDS.includes(value as TelemetrySourceKind);
+}
+
+/**
+ * Parse a startup source spec: "live", "synthetic", "replay:<file>" or "capture:<file>".
+ * Unknown or incomplete specs fall back to live.
+ */
+export function parseSourceSpec(spec: string | undefined): TelemetrySourceConfig {
+  if (!spec) return { kind: "live" };
+  const [kind, ...rest] = spec.split(":");
+  const file = rest.join(":");
+  if (!isSourceKind(kind)) {
+    console.warn(`[Source] Unknown source "${spec}", using live`);
+    return { kind: "live" };
+  }
+  if ((kind === "replay" || kind === "capture") && !file) {
+    console.warn(`[Source] "${kind}" needs a file (${kind}:<file>), using live`);
+    return { kind: "live" };
+  }
+  return { kind, file: file || undefined, loop: true, speed: 1 };
+}
+
+/** Recordings available to replay, newest first. */
+export function listRecordings(recordingsDir: string): string[] {
+  if (!fs.existsSync(recordingsDir)) return [];
+  return fs
+    .readdirSync(recordingsDir)
+    .filter((name) => name.endsWith(".ndjson") || name.endsWith(CAPTURE_EXTENSION))
+    .sort()
+    .reverse();
+}
+
+export function createTelemetrySource(
+  config: TelemetrySourceConfig,
+  ctx: SourceContext,
+): TelemetrySource {
+  const speed = config.speed && config.speed > 0 ? config.speed : 1;
+  const loop = config.loop ?? true;
+
+  switch (config.kind) {
+    case "replay":
+    case "capture": {
+      if (!config.file) throw new Error(`Source "${config.kind}" needs a file`);
+      const filePath = path.resolve(ctx.recordingsDir, config.file);
+      return config.kind === "replay"
+        ? createReplaySource({ filePath, speed, loop }, ctx.emit)
+        : createCaptureSource({ filePath, speed, loop }, ctx.emit);
+    }
+    case "synthetic":
+      return createSyntheticSource(ctx.emit);
+    default:
+      return createLiveSource(
+        {
+          getTarget: ctx.getConsoleTarget,
+          getFormat: ctx.getFormat,
+          onConsoleState: ctx.onConsoleState,
+        },
+        ctx.emit,
+      );
+  }
+}
@@ -0,0 +1,82 @@
+import type dgram from "node:dgram";
+import type { ConsoleLinkState, ConsoleTargetConfig, PacketFormat } from "@opengt/shared/types";
+import { createConsoleLinkTracker } from "../console-link.js";
+import { processPacket } from "../telemetry.js";
+import { createUdpSocket, getBroadcastAddresses, sendHeartbeat, startHeartbeat } from "../udp.js";
+import type { SourcePacket, TelemetrySource } from "./index.js";
+
+const LINK_CHECK_INTERVAL_MS = 500;
+
+export interface LiveSourceOptions {
+  /** Pinned consoles, broadcast interfaces and heartbeat interval. Read on every heartbeat. */
+  getTarget(): ConsoleTargetConfig;
+  getFormat(): PacketFormat;
+  /** Console link state changes (searching/locked/stale/lost). */
+  onConsoleState(state: ConsoleLinkState): void;
+}
+
+/** Telemetry from the consoles on the LAN: heartbeat, discovery, decrypt. */
+export function createLiveSource(
+  options: LiveSourceOptions,
+  emit: (packet: SourcePacket) => void,
+): TelemetrySource {
+  const { getTarget, getFormat, onConsoleState } = options;
+  const links = createConsoleLinkTracker(onLinkChange, () => getTarget().heartbeatIntervalMs);
+  let socket: dgram.Socket | null = null;
+  let heartbeat: NodeJS.Timeout | null = null;
+  let linkCheck: NodeJS.Timeout | null = null;
+
+  function targets(): string[] {
+    const { explicitIPs, interfaces } = getTarget();
+    if (explicitIPs.length > 0) return explicitIPs;
+    // Consoles with a live link get heartbeats directly; broadcasting continues so
+    // consoles that join later (or come back on a new address) are found too
+    return [...links.addresses(), ...getBroadcastAddresses(interfaces)];
+  }
+
+  function onLinkChange(state: ConsoleLinkState): void {
+    // Packets stopped — maybe the console missed a heartbeat, so send one right away
+    if (state.phase === "stale" && state.address && socket) {
+      sendHeartbeat(socket, [state.address], getFormat());
+    }
+    onConsoleState(state);
+  }
+
+  function onMessage(msg: Buffer, rinfo: dgram.RemoteInfo): void {
+    const receivedAt = process.hrtime.bigint();
+    const format = getFormat();
+    const data = processPacket(msg, format);
+    if (!data) return;
+
+    links.onPacket(rinfo.address);
+
+    emit({
+      data,
+      raw: { bytes: msg, address: rinfo.address, port: rinfo.port, receivedAt },
+      format,
+    });
+  }
+
+  function start(): void {
+    if (socket) return;
+    const { explicitIPs, heartbeatIntervalMs } = getTarget();
+    console.log(
+      `[GT7] ${explicitIPs.length > 0 ? `Using explicit PS5 IP: ${explicitIPs.join(", ")}` : `Auto-discovery via broadcast: ${targets().join(", ")}`}`,
+    );
+    if (links.addresses().length === 0) onConsoleState(links.searching());
+    socket = createUdpSocket(onMessage);
+    heartbeat = startHeartbeat(socket, targets, getFormat, heartbeatIntervalMs);
+    linkCheck = setInterval(() => links.check(), LINK_CHECK_INTERVAL_MS);
+  }
+
+  function stop(): void {
+    if (heartbeat) clearInterval(heartbeat);
+    if (linkCheck) clearInterval(linkCheck);
+    heartbeat = null;
+    linkCheck = null;
+    socket?.close();
+    socket = null;
+  }
+
+  return { kind: "live", start, stop };
+}
@@ -0,0 +1,75 @@
+import fs from "node:fs";
+import path from "node:path";
+import readline from "node:readline";
+import { setTimeout as sleep } from "node:timers/promises";
+import { DEFAULT_PACKET_FORMAT } from "@opengt/shared/constants";
+import type { GameId, TelemetryData } from "@opengt/shared/types";
+import type { SourcePacket, TelemetrySource } from "./index.js";
+
+export interface ReplayOptions {
+  filePath: string;
+  speed: number;
+  loop: boolean;
+}
+
+interface LoggedPacket {
+  timestamp: number;
+  // Sessions logged before game detection have no game, and they're all GT7
+  data: Omit<TelemetryData, "game"> & { game?: GameId };
+}
+
+/** Replays a session written by the telemetry logger, paced by its timestamps. */
+export function createReplaySource(
+  options: ReplayOptions,
+  emit: (packet: SourcePacket) => void,
+): TelemetrySource {
+  const { filePath, speed, loop } = options;
+  let abort: AbortController | null = null;
+
+  async function play(signal: AbortSignal): Promise<void> {
+    do {
+      const lines = readline.createInterface({
+        input: fs.createReadStream(filePath),
+        crlfDelay: Number.POSITIVE_INFINITY,
+      });
+      let previous: number | null = null;
+      try {
+        for await (const line of lines) {
+          if (signal.aborted) return;
+          if (!line.trim()) continue;
+
+          const entry: LoggedPacket = JSON.parse(line);
+          if (previous !== null && entry.timestamp > previous) {
+            await sleep((entry.timestamp - previous) / speed, undefined, { signal });
+          }
+          previous = entry.timestamp;
+          const data: TelemetryData = { ...entry.data, game: entry.data.game ?? "gt7" };
+          emit({ data, format: DEFAULT_PACKET_FORMAT });
+        }
+      } finally {
+        lines.close();
+      }
+    } while (loop && !signal.aborted);
+
+    console.log(`[Source] Replay finished: ${path.basename(filePath)}`);
+  }
+
+  function start(): void {
+    if (abort) return;
+    abort = new AbortController();
+    console.log(
+      `[Source] Replaying ${path.basename(filePath)} at ${speed}x${loop ? " (loop)" : ""}`,
+    );
+    play(abort.signal).catch((err) => {
+      if (err instanceof Error && err.name === "AbortError") return;
+      console.error("[Source] Replay failed:", err instanceof Error ? err.message : err);
+    });
+  }
+
+  function stop(): void {
+    abort?.abort();
+    abort = null;
+  }
+
+  return { kind: "replay", start, stop };
+}
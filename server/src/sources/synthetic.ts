@@ -0,0 +1,278 @@
+import { CONSOLE_PACKET_HZ, MAGIC_GT7 } from "@opengt/shared/constants";
+import { formatLapTime } from "@opengt/shared/telemetry";
+import type { FourCorners, TelemetryData } from "@opengt/shared/types";
+import type { SourcePacket, TelemetrySource } from "./index.js";
+
+const DT = 1 / CONSOLE_PACKET_HZ; // seconds per packet
+
+// Track: an ellipse — two long straights joined by tight hairpins
+const TRACK_A = 420; // m, half-length
+const TRACK_B = 180; // m, half-width
+const TRACK_SAMPLES = 2000;
+
+// Car
+export const SYNTHETIC_CAR_CODE = 9999;
+const TOP_SPEED = 75; // m/s
+const LATERAL_GRIP = 12; // m/s², cornering limit
+const ACCEL = 7; // m/s² at low speed, fades towards top speed
+const BRAKE_DECEL = 13; // m/s²
+const GEAR_RATIOS = [3.3, 2.4, 1.85, 1.5, 1.22, 1.0, 0, 0];
+const FINAL_DRIVE = 3.9;
+const TYRE_RADIUS = 0.33; // m
+const UPSHIFT_RPM = 7400;
+const REDLINE_RPM = 8000;
+const IDLE_RPM = 1100;
+const FUEL_CAPACITY = 100; // L
+const FUEL_BURN = 0.06; // L/s at full throttle
+
+interface TrackSample {
+  distance: number; // m from start line
+  x: number;
+  z: number;
+  heading: number; // rad
+  curvature: number; // 1/m
+  targetSpeed: number; // m/s, after braking look-ahead
+}
+
+function buildTrack(): { samples: TrackSample[]; length: number } {
+  const samples: TrackSample[] = [];
+  let distance = 0;
+  let prevX = TRACK_A;
+  let prevZ = 0;
+
+  for (let i = 0; i < TRACK_SAMPLES; i++) {
+    const t = (i / TRACK_SAMPLES) * Math.PI * 2;
+    const x = TRACK_A * Math.cos(t);
+    const z = TRACK_B * Math.sin(t);
+    distance += Math.hypot(x - prevX, z - prevZ);
+    prevX = x;
+    prevZ = z;
+
+    // Ellipse curvature: ab / (a²sin²t + b²cos²t)^(3/2)
+    const denom = (TRACK_A * Math.sin(t)) ** 2 + (TRACK_B * Math.cos(t)) ** 2;
+    const curvature = (TRACK_A * TRACK_B) / denom ** 1.5;
+    const heading = Math.atan2(TRACK_B * Math.cos(t), -TRACK_A * Math.sin(t));
+    const cornerSpeed = Math.sqrt(LATERAL_GRIP / curvature);
+
+    samples.push({
+      distance,
+      x,
+      z,
+      heading,
+      curvature,
+      targetSpeed: Math.min(TOP_SPEED, cornerSpeed),
+    });
+  }
+  const length = distance + Math.hypot(TRACK_A - prevX, prevZ);
+
+  // Backward pass (twice, it's a loop) so the car brakes before corners, not in them
+  for (let pass = 0; pass < 2; pass++) {
+    for (let i = TRACK_SAMPLES - 1; i >= 0; i--) {
+      const next = samples[(i + 1) % TRACK_SAMPLES];
+      const ds = next.distance > samples[i].distance ? next.distance - samples[i].distance : 1;
+      const reachable = Math.sqrt(next.targetSpeed ** 2 + 2 * BRAKE_DECEL * ds);
+      samples[i].targetSpeed = Math.min(samples[i].targetSpeed, reachable);
+    }
+  }
+
+  return { samples, length };
+}
+
+function rpmFor(speed: number, gear: number): number {
+  const ratio = GEAR_RATIOS[gear - 1] ?? 1;
+  return Math.max(IDLE_RPM, (speed / (2 * Math.PI * TYRE_RADIUS)) * 60 * ratio * FINAL_DRIVE);
+}
+
+function gearFor(speed: number): number {
+  for (let gear = 1; gear <= 6; gear++) {
+    if (rpmFor(speed, gear) <= UPSHIFT_RPM) return gear;
+  }
+  return 6;
+}
+
+export interface SyntheticCar {
+  /** Advance one console tick (1/60 s) and return the resulting packet. */
+  step(): TelemetryData;
+}
+
+/** A scripted car lapping a synthetic oval: laps, fuel burn, tyre heat. */
+export function createSyntheticCar(): SyntheticCar {
+  const { samples, length } = buildTrack();
+
+  let packetId = 0;
+  let distance = 0;
+  let speed = 0;
+  let sampleIndex = 0;
+  let lapCount = 1;
+  let lapTicks = 0;
+  let totalTicks = 0;
+  let lastLapTime = -1;
+  let bestLapTime = -1;
+  let fuelLevel = FUEL_CAPACITY;
+  const tyreTemp: FourCorners<number> = { fl: 40, fr: 40, rl: 40, rr: 40 };
+
+  function sampleAt(d: number): TrackSample {
+    // Samples are ordered by distance — walk forward from the last index
+    while (sampleIndex < TRACK_SAMPLES - 1 && samples[sampleIndex + 1].distance <= d) {
+      sampleIndex++;
+    }
+    return samples[sampleIndex];
+  }
+
+  function step(): TelemetryData {
+    packetId++;
+    totalTicks++;
+    lapTicks++;
+
+    const here = sampleAt(distance);
+    let throttle = 0;
+    let brake = 0;
+
+    if (speed < here.targetSpeed - 0.3) {
+      const available = ACCEL * (1 - speed / (TOP_SPEED * 1.1));
+      speed = Math.min(here.targetSpeed, speed + available * DT);
+      throttle = 100;
+    } else if (speed > here.targetSpeed + 0.3) {
+      const needed = (speed - here.targetSpeed) / DT;
+      const decel = Math.min(BRAKE_DECEL, needed);
+      speed -= decel * DT;
+      brake = Math.round((decel / BRAKE_DECEL) * 100);
+    } else {
+      throttle = 45; // holding speed mid-corner
+    }
+
+    distance += speed * DT;
+    if (distance >= length) {
+      distance -= length;
+      sampleIndex = 0;
+      lastLapTime = Math.round(lapTicks * DT * 1000);
+      if (bestLapTime < 0 || lastLapTime < bestLapTime) bestLapTime = lastLapTime;
+      lapCount++;
+      lapTicks = 0;
+    }
+
+    const gear = gearFor(speed);
+    const rpm = rpmFor(speed, gear);
+    const lateralG = (speed * speed * here.curvature) / 9.81;
+
+    fuelLevel = Math.max(0, fuelLevel - (throttle / 100) * FUEL_BURN * DT);
+
+    // Tyres drift towards a load-dependent temperature; fronts take the braking heat
+    const base = 60 + lateralG * 14;
+    const targets: FourCorners<number> = {
+      fl: base + brake * 0.25,
+      fr: base + brake * 0.25 + lateralG * 4, // anticlockwise track loads the right side
+      rl: base + throttle * 0.08,
+      rr: base + throttle * 0.08 + lateralG * 4,
+    };
+    for (const corner of ["fl", "fr", "rl", "rr"] as const) {
+      tyreTemp[corner] += (targets[corner] - tyreTemp[corner]) * 0.002;
+    }
+
+    const wheelRPS = speed / (2 * Math.PI * TYRE_RADIUS);
+    const revLimiter = rpm >= REDLINE_RPM - 100;
+    const flags = 1 | 8 | (revLimiter ? 32 : 0); // on track, in gear
+    const yawRate = speed * here.curvature;
+
+    return {
+      magic: MAGIC_GT7,
+      game: "gt7",
+      position: { x: here.x, y: 0, z: here.z },
+      velocity: { x: Math.cos(here.heading) * speed, y: 0, z: Math.sin(here.heading) * speed },
+      rotation: { pitch: 0, yaw: here.heading / Math.PI, roll: 0 },
+      orientationToNorth: here.heading / Math.PI,
+      angularVelocity: { x: 0, y: yawRate, z: 0 },
+      bodyHeight: 0.1,
+      engineRPM: rpm,
+      fuelLevel,
+      fuelCapacity: FUEL_CAPACITY,
+      speed: speed * 3.6,
+      boost: 0,
+      oilPressure: 4.5,
+      waterTemp: 88,
+      oilTemp: 104,
+      tyreTemp: { ...tyreTemp },
+      packetId,
+      lapCount,
+      totalLaps: 0,
+      bestLapTime,
+      lastLapTime,
+      dayProgression: Math.round(totalTicks * DT * 1000),
+      raceStartPosition: -1,
+      preRaceNumCars: -1,
+      minAlertRPM: UPSHIFT_RPM - 400,
+      maxAlertRPM: REDLINE_RPM,
+      calcMaxSpeed: Math.round(TOP_SPEED * 3.6),
+      flags,
+      currentGear: gear,
+      suggestedGear: 15,
+      throttle,
+      brake,
+      roadPlane: { x: 0, y: 1, z: 0 },
+      roadPlaneDistance: 0,
+      wheelRPS: { fl: wheelRPS, fr: wheelRPS, rl: wheelRPS, rr: wheelRPS },
+      tyreRadius: { fl: TYRE_RADIUS, fr: TYRE_RADIUS, rl: TYRE_RADIUS, rr: TYRE_RADIUS },
+      suspHeight: { fl: 0.05, fr: 0.05, rl: 0.05, rr: 0.05 },
+      clutch: 0,
+      clutchEngagement: 1,
+      rpmFromClutchToGearbox: rpm,
+      transmissionTopSpeed: GEAR_RATIOS[5],
+      gearRatios: [...GEAR_RATIOS],
+      carCode: SYNTHETIC_CAR_CODE,
+      carOnTrack: true,
+      paused: false,
+      loading: false,
+      inGear: true,
+      hasTurbo: false,
+      revLimiter,
+      handbrake: false,
+      lightsOn: false,
+      asmActive: false,
+      tcsActive: false,
+      bestLapFormatted: formatLapTime(bestLapTime),
+      lastLapFormatted: formatLapTime(lastLapTime),
+      currentLapTime: -1,
+      lapDistance: -1,
+      lapFraction: -1,
+      deltaToSessionBest: null,
+      deltaToAllTimeBest: null,
+      predictedLapTime: -1,
+      slipRatio: { fl: 0, fr: 0, rl: 0, rr: 0 },
+      gForce: { lateral: 0, longitudinal: 0, vertical: 1 },
+      yawRate: 0,
+      expectedYawRate: 0,
+      slipAngle: 0,
+    };
+  }
+
+  return { step };
+}
+
+/** Synthetic source: the scripted car, emitted at the console's 60Hz. */
+export function createSyntheticSource(emit: (packet: SourcePacket) => void): TelemetrySource {
+  let timer: NodeJS.Timeout | null = null;
+
+  function start(): void {
+    if (timer) return;
+    const car = createSyntheticCar();
+    const startedAt = performance.now();
+    let emitted = 0;
+
+    console.log("[Source] Synthetic car on track");
+    // Timers drift — emit however many ticks are due so the rate stays at 60Hz
+    timer = setInterval(() => {
+      const due = Math.floor(((performance.now() - startedAt) / 1000) * CONSOLE_PACKET_HZ);
+      while (emitted < due) {
+        emit({ data: car.step(), format: "A" });
+        emitted++;
+      }
+    }, 1000 / CONSOLE_PACKET_HZ);
+  }
+
+  function stop(): void {
+    if (timer) clearInterval(timer);
+    timer = null;
+  }
+
+  return { kind: "synthetic", start, stop };
+}
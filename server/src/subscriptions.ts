@@ -0,0 +1,140 @@
+import { BROADCAST_HZ, CONSOLE_PACKET_HZ } from "@opengt/shared/constants";
+import type { TelemetryData, TelemetryField, TelemetrySubscription } from "@opengt/shared/types";
+import { encodeWireFrame, staticSignature, WIRE_VERSION } from "@opengt/shared/wire";
+
+const MIN_HZ = 1;
+// Packets arrive with jitter, so a client is due half a console tick early — otherwise
+// a 60Hz subscriber would miss every packet that lands a millisecond too soon
+const TOLERANCE_MS = 1000 / CONSOLE_PACKET_HZ / 2;
+
+// Binary clients get a full keyframe at least this often, even if nothing static changed
+const KEYFRAME_INTERVAL_MS = 5_000;
+
+const DEFAULT_SUBSCRIPTION: TelemetrySubscription = {
+  hz: BROADCAST_HZ,
+  fields: null,
+  encoding: "json",
+};
+
+interface ClientStream {
+  subscription: TelemetrySubscription;
+  intervalMs: number;
+  lastSentAt: number;
+  // Binary only: static values the client has, and when it last got them
+  sentSignature: string | null;
+  lastKeyframeAt: number;
+}
+
+/** What to emit to one client: an event name and its payload. */
+export type TelemetryFrame =
+  | { event: "telemetry"; payload: Partial<TelemetryData> }
+  | { event: "telemetry:bin"; payload: Uint8Array };
+
+// One packet's wire frames, shared by every binary client it goes out to
+interface EncodedPacket {
+  data: TelemetryData;
+  signature: string;
+  keyframe?: Uint8Array;
+  delta?: Uint8Array;
+}
+
+export interface TelemetrySubscriptions {
+  /**
+   * Replace a client's subscription. Missing or invalid parts fall back to the defaults;
+   * binary is only granted for the wire version this server speaks.
+   */
+  set(clientId: string, params: unknown): TelemetrySubscription;
+  remove(clientId: string): void;
+  /**
+   * The frame to send this client, or null if it isn't due one yet.
+   * Clients that never subscribed get every field at the default rate.
+   */
+  frameFor(clientId: string, data: TelemetryData, now: number): TelemetryFrame | null;
+}
+
+function parseSubscription(params: unknown): TelemetrySubscription {
+  if (typeof params !== "object" || params === null) return DEFAULT_SUBSCRIPTION;
+  const { hz, fields, encoding, version } = params as Record<string, unknown>;
+  return {
+    hz:
+      typeof hz === "number" && Number.isFinite(hz)
+        ? Math.min(CONSOLE_PACKET_HZ, Math.max(MIN_HZ, hz))
+        : DEFAULT_SUBSCRIPTION.hz,
+    fields: Array.isArray(fields)
+      ? fields.filter((f): f is TelemetryField => typeof f === "string")
+      : null,
+    encoding: encoding === "binary" && version === WIRE_VERSION ? "binary" : "json",
+  };
+}
+
+function pick(data: TelemetryData, fields: TelemetryField[]): Partial<TelemetryData> {
+  const frame: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (field in data) frame[field] = data[field];
+  }
+  return frame as Partial<TelemetryData>;
+}
+
+/** Per-client rate and field selection for the telemetry stream. */
+export function createTelemetrySubscriptions(): TelemetrySubscriptions {
+  const clients = new Map<string, ClientStream>();
+  let encoded: EncodedPacket | null = null;
+
+  function streamFor(subscription: TelemetrySubscription): ClientStream {
+    return {
+      subscription,
+      intervalMs: 1000 / subscription.hz,
+      lastSentAt: 0,
+      sentSignature: null,
+      lastKeyframeAt: 0,
+    };
+  }
+
+  function encodingOf(data: TelemetryData): EncodedPacket {
+    if (encoded?.data !== data) encoded = { data, signature: staticSignature(data) };
+    return encoded;
+  }
+
+  function binaryFrame(stream: ClientStream, data: TelemetryData, now: number): Uint8Array {
+    const packet = encodingOf(data);
+    const keyframe =
+      packet.signature !== stream.sentSignature ||
+      now - stream.lastKeyframeAt >= KEYFRAME_INTERVAL_MS;
+    if (!keyframe) {
+      packet.delta ??= encodeWireFrame(data, false);
+      return packet.delta;
+    }
+    stream.sentSignature = packet.signature;
+    stream.lastKeyframeAt = now;
+    packet.keyframe ??= encodeWireFrame(data, true);
+    return packet.keyframe;
+  }
+
+  function set(clientId: string, params: unknown): TelemetrySubscription {
+    const subscription = parseSubscription(params);
+    clients.set(clientId, streamFor(subscription));
+    return subscription;
+  }
+
+  function frameFor(clientId: string, data: TelemetryData, now: number): TelemetryFrame | null {
+    let stream = clients.get(clientId);
+    if (!stream) {
+      stream = streamFor(DEFAULT_SUBSCRIPTION);
+      clients.set(clientId, stream);
+    }
+    if (now - stream.lastSentAt < stream.intervalMs - TOLERANCE_MS) return null;
+    stream.lastSentAt = now;
+
+    const { fields, encoding } = stream.subscription;
+    if (encoding === "binary") {
+      return { event: "telemetry:bin", payload: binaryFrame(stream, data, now) };
+    }
+    return { event: "telemetry", payload: fields ? pick(data, fields) : data };
+  }
+
+  return {
+    set,
+    remove: (clientId) => clients.delete(clientId),
+    frameFor,
+  };
+}
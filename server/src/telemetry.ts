@@ -1,21 +1,50 @@
-import { BROADCAST_HZ, MAGIC_GT7, PACKET_SIZE, SALSA_KEY } from "@opengt/shared/constants";
-import type { TelemetryData } from "@opengt/shared/types";
+import crypto from "node:crypto";
+import { DEFAULT_PACKET_FORMAT, GAMES, PACKET_FORMATS } from "@opengt/shared/constants";
+import { formatLapTime, parseFlags } from "@opengt/shared/telemetry";
+import type {
+  GameId,
+  PacketFormat,
+  RawInspection,
+  RawWord,
+  TelemetryData,
+} from "@opengt/shared/types";
 import { salsa20Decrypt } from "./crypto/salsa20.js";
 
-const salsaKey = Buffer.from(SALSA_KEY.slice(0, 32), "ascii");
+const GAME_IDS = Object.keys(GAMES) as GameId[];
+const salsaKeys = Object.fromEntries(
+  GAME_IDS.map((game) => [game, Buffer.from(GAMES[game].salsaKey.slice(0, 32), "ascii")]),
+) as Record<GameId, Buffer>;
 
-const BROADCAST_INTERVAL = 1000 / BROADCAST_HZ;
-let lastBroadcast = 0;
+// The game that decrypted the previous packet is tried first, so detection costs one
+// decrypt per packet once a stream is flowing
+let lastGame: GameId = "gt7";
+const detectedGames = new Set<GameId>();
 
-function formatLapTime(ms: number): string {
-  if (ms < 0) return "--:--.---";
-  const minutes = Math.floor(ms / 60000);
-  const seconds = Math.floor((ms % 60000) / 1000);
-  const millis = ms % 1000;
-  return `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}.${millis.toString().padStart(3, "0")}`;
+/** Fields appended by the longer "B" and "~" packet variants. */
+function parseExtendedFields(buf: Buffer, format: PacketFormat): Partial<TelemetryData> {
+  if (format === "A") return {};
+
+  const extended: Partial<TelemetryData> = {
+    wheelRotation: buf.readFloatLE(0x128),
+    sway: buf.readFloatLE(0x130),
+    heave: buf.readFloatLE(0x134),
+    surge: buf.readFloatLE(0x138),
+  };
+  if (format === "B") return extended;
+
+  const torqueVectors: number[] = [];
+  for (let i = 0; i < 4; i++) torqueVectors.push(buf.readFloatLE(0x140 + i * 4));
+
+  return {
+    ...extended,
+    throttleFiltered: Math.round((buf.readUInt8(0x13c) / 255) * 100),
+    brakeFiltered: Math.round((buf.readUInt8(0x13d) / 255) * 100),
+    torqueVectors,
+    energyRecovery: buf.readFloatLE(0x150),
+  };
 }
 
-function parsePacket(buf: Buffer): TelemetryData {
+function parsePacket(buf: Buffer, format: PacketFormat, game: GameId): TelemetryData {
   const magic = buf.readInt32LE(0x00);
   const position = { x: buf.readFloatLE(0x04), y: buf.readFloatLE(0x08), z: buf.readFloatLE(0x0c) };
   const velocity = { x: buf.readFloatLE(0x10), y: buf.readFloatLE(0x14), z: buf.readFloatLE(0x18) };
@@ -65,6 +94,20 @@ function parsePacket(buf: Buffer): TelemetryData {
   const throttleRaw = buf.readUInt8(0x91);
   const brakeRaw = buf.readUInt8(0x92);
 
+  // Plane of the road surface under the car: unit normal + distance from origin.
+  // GT Sport leaves these bytes empty, so they're left out rather than reported as zeros.
+  const roadPlane =
+    game === "gt7"
+      ? {
+          roadPlane: {
+            x: buf.readFloatLE(0x94),
+            y: buf.readFloatLE(0x98),
+            z: buf.readFloatLE(0x9c),
+          },
+          roadPlaneDistance: buf.readFloatLE(0xa0),
+        }
+      : {};
+
   const wheelRPS = {
     fl: buf.readFloatLE(0xa4),
     fr: buf.readFloatLE(0xa8),
@@ -96,6 +139,7 @@ function parsePacket(buf: Buffer): TelemetryData {
 
   return {
     magic,
+    game,
     position,
     velocity,
     rotation,
@@ -127,6 +171,7 @@ function parsePacket(buf: Buffer): TelemetryData {
     suggestedGear,
     throttle: Math.round((throttleRaw / 255) * 100),
     brake: Math.round((brakeRaw / 255) * 100),
+    ...roadPlane,
     wheelRPS,
     tyreRadius,
     suspHeight,
@@ -136,52 +181,249 @@ function parsePacket(buf: Buffer): TelemetryData {
     transmissionTopSpeed,
     gearRatios,
     carCode,
-    carOnTrack: !!(flags & 1),
-    paused: !!(flags & 2),
-    loading: !!(flags & 4),
-    inGear: !!(flags & 8),
-    hasTurbo: !!(flags & 16),
-    revLimiter: !!(flags & 32),
-    handbrake: !!(flags & 64),
-    lightsOn: !!(flags & 128),
-    asmActive: !!(flags & 1024),
-    tcsActive: !!(flags & 2048),
+    ...parseFlags(flags),
     bestLapFormatted: formatLapTime(bestLapTime),
     lastLapFormatted: formatLapTime(lastLapTime),
+    // Not in the packet — filled in per console by the lap timer, track model and lap delta
     currentLapTime: -1,
+    lapDistance: -1,
+    lapFraction: -1,
+    deltaToSessionBest: null,
+    deltaToAllTimeBest: null,
+    predictedLapTime: -1,
+    slipRatio: { fl: 0, fr: 0, rl: 0, rr: 0 },
+    gForce: { lateral: 0, longitudinal: 0, vertical: 1 },
+    yawRate: 0,
+    expectedYawRate: 0,
+    slipAngle: 0,
+    ...parseExtendedFields(buf, format),
   };
 }
 
-/** Process a raw UDP packet: decrypt, verify, parse. Returns null if invalid. */
-export function processPacket(msg: Buffer): TelemetryData | null {
-  if (msg.length < PACKET_SIZE) return null;
+/** Inverse of parsePacket: lay a TelemetryData out in the console's plaintext byte order. */
+function serializePacket(data: TelemetryData, format: PacketFormat): Buffer {
+  const buf = Buffer.alloc(PACKET_FORMATS[format].size);
+  const writeCorners = (offset: number, corners: TelemetryData["tyreTemp"]) => {
+    buf.writeFloatLE(corners.fl, offset);
+    buf.writeFloatLE(corners.fr, offset + 4);
+    buf.writeFloatLE(corners.rl, offset + 8);
+    buf.writeFloatLE(corners.rr, offset + 12);
+  };
+  const toByte = (percent: number) => Math.max(0, Math.min(255, Math.round((percent / 100) * 255)));
+
+  buf.writeInt32LE(GAMES[data.game].magic, 0x00);
+  buf.writeFloatLE(data.position.x, 0x04);
+  buf.writeFloatLE(data.position.y, 0x08);
+  buf.writeFloatLE(data.position.z, 0x0c);
+  buf.writeFloatLE(data.velocity.x, 0x10);
+  buf.writeFloatLE(data.velocity.y, 0x14);
+  buf.writeFloatLE(data.velocity.z, 0x18);
+  buf.writeFloatLE(data.rotation.pitch, 0x1c);
+  buf.writeFloatLE(data.rotation.yaw, 0x20);
+  buf.writeFloatLE(data.rotation.roll, 0x24);
+  buf.writeFloatLE(data.orientationToNorth, 0x28);
+  buf.writeFloatLE(data.angularVelocity.x, 0x2c);
+  buf.writeFloatLE(data.angularVelocity.y, 0x30);
+  buf.writeFloatLE(data.angularVelocity.z, 0x34);
+  buf.writeFloatLE(data.bodyHeight, 0x38);
+  buf.writeFloatLE(data.engineRPM, 0x3c);
+  // 0x40-0x43 is the IV, filled in by encodePacket
+  buf.writeFloatLE(data.fuelLevel, 0x44);
+  buf.writeFloatLE(data.fuelCapacity, 0x48);
+  buf.writeFloatLE(data.speed / 3.6, 0x4c);
+  buf.writeFloatLE(data.boost, 0x50);
+  buf.writeFloatLE(data.oilPressure, 0x54);
+  buf.writeFloatLE(data.waterTemp, 0x58);
+  buf.writeFloatLE(data.oilTemp, 0x5c);
+  writeCorners(0x60, data.tyreTemp);
+  buf.writeInt32LE(data.packetId, 0x70);
+  buf.writeInt16LE(data.lapCount, 0x74);
+  buf.writeInt16LE(data.totalLaps, 0x76);
+  buf.writeInt32LE(data.bestLapTime, 0x78);
+  buf.writeInt32LE(data.lastLapTime, 0x7c);
+  buf.writeInt32LE(data.dayProgression, 0x80);
+  buf.writeInt16LE(data.raceStartPosition, 0x84);
+  buf.writeInt16LE(data.preRaceNumCars, 0x86);
+  buf.writeInt16LE(data.minAlertRPM, 0x88);
+  buf.writeInt16LE(data.maxAlertRPM, 0x8a);
+  buf.writeInt16LE(data.calcMaxSpeed, 0x8c);
+  buf.writeUInt16LE(data.flags, 0x8e);
+  buf.writeUInt8(((data.suggestedGear & 0x0f) << 4) | (data.currentGear & 0x0f), 0x90);
+  buf.writeUInt8(toByte(data.throttle), 0x91);
+  buf.writeUInt8(toByte(data.brake), 0x92);
+  buf.writeFloatLE(data.roadPlane?.x ?? 0, 0x94);
+  buf.writeFloatLE(data.roadPlane?.y ?? 0, 0x98);
+  buf.writeFloatLE(data.roadPlane?.z ?? 0, 0x9c);
+  buf.writeFloatLE(data.roadPlaneDistance ?? 0, 0xa0);
+  writeCorners(0xa4, data.wheelRPS);
+  writeCorners(0xb4, data.tyreRadius);
+  writeCorners(0xc4, data.suspHeight);
+  buf.writeFloatLE(data.clutch, 0xf4);
+  buf.writeFloatLE(data.clutchEngagement, 0xf8);
+  buf.writeFloatLE(data.rpmFromClutchToGearbox, 0xfc);
+  buf.writeFloatLE(data.transmissionTopSpeed, 0x100);
+  for (let i = 0; i < 8; i++) buf.writeFloatLE(data.gearRatios[i] ?? 0, 0x104 + i * 4);
+  buf.writeInt32LE(data.carCode, 0x124);
 
-  // Extract IV from bytes 0x40-0x43 and build 8-byte nonce
-  const iv1 = msg.readUInt32LE(0x40);
-  const iv2 = (iv1 ^ 0xdeadbeaf) >>> 0;
+  if (format === "A") return buf;
+  buf.writeFloatLE(data.wheelRotation ?? 0, 0x128);
+  buf.writeFloatLE(data.sway ?? 0, 0x130);
+  buf.writeFloatLE(data.heave ?? 0, 0x134);
+  buf.writeFloatLE(data.surge ?? 0, 0x138);
+
+  if (format === "B") return buf;
+  buf.writeUInt8(toByte(data.throttleFiltered ?? data.throttle), 0x13c);
+  buf.writeUInt8(toByte(data.brakeFiltered ?? data.brake), 0x13d);
+  for (let i = 0; i < 4; i++) buf.writeFloatLE(data.torqueVectors?.[i] ?? 0, 0x140 + i * 4);
+  buf.writeFloatLE(data.energyRecovery ?? 0, 0x150);
+  return buf;
+}
+
+/** 8-byte Salsa20 nonce from the IV word at 0x40 (XOR constant depends on the variant). */
+function buildNonce(iv1: number, format: PacketFormat): Buffer {
+  const iv2 = (iv1 ^ PACKET_FORMATS[format].ivXor) >>> 0;
   const iv = Buffer.alloc(8);
   iv.writeUInt32LE(iv2, 0);
   iv.writeUInt32LE(iv1, 4);
+  return iv;
+}
+
+/** The layout a game actually sends for a requested format (GT Sport only has "A"). */
+function layoutFor(game: GameId, format: PacketFormat): PacketFormat {
+  const { formats } = GAMES[game];
+  return formats.includes(format) ? format : formats[0];
+}
+
+/**
+ * Encode and encrypt a packet exactly as the console sends it, with the key of data.game.
+ * processPacket(encodePacket(data, format), format) round-trips every field the
+ * console transmits (throttle/brake to the nearest percent).
+ */
+export function encodePacket(
+  data: TelemetryData,
+  format: PacketFormat = DEFAULT_PACKET_FORMAT,
+): Buffer {
+  const layout = layoutFor(data.game, format);
+  const plain = serializePacket(data, layout);
+  const iv1 = crypto.randomBytes(4).readUInt32LE(0);
+  plain.writeUInt32LE(iv1, 0x40);
+
+  // Salsa20 is a stream cipher, so encrypting is the same operation as decrypting
+  const encrypted = salsa20Decrypt(plain, salsaKeys[data.game], buildNonce(iv1, layout));
+
+  // The IV travels in the clear
+  plain.copy(encrypted, 0x40, 0x40, 0x44);
+  return encrypted;
+}
+
+/** A packet that decrypted with one of the known key/magic pairs. */
+export interface DecryptedPacket {
+  buf: Buffer;
+  game: GameId;
+  format: PacketFormat; // layout actually sent, which differs from the request for GT Sport
+}
+
+function decryptAs(msg: Buffer, game: GameId, format: PacketFormat): DecryptedPacket | null {
+  const layout = layoutFor(game, format);
+  if (msg.length < PACKET_FORMATS[layout].size) return null;
+
+  // Extract IV from bytes 0x40-0x43 and build the nonce
+  const iv = buildNonce(msg.readUInt32LE(0x40), layout);
 
   // Decrypt
-  const decrypted = salsa20Decrypt(msg, salsaKey, iv);
+  const decrypted = salsa20Decrypt(msg, salsaKeys[game], iv);
 
   // Restore IV bytes (they weren't encrypted)
   msg.copy(decrypted, 0x40, 0x40, 0x44);
 
   // Verify magic
   const magic = decrypted.readInt32LE(0);
-  if (magic !== MAGIC_GT7) return null;
+  if (magic !== GAMES[game].magic) return null;
 
-  return parsePacket(decrypted);
+  return { buf: decrypted, game, format: layout };
 }
 
-/** Returns true if enough time has passed since last broadcast (30Hz throttle) */
-export function shouldBroadcast(): boolean {
-  const now = Date.now();
-  if (now - lastBroadcast >= BROADCAST_INTERVAL) {
-    lastBroadcast = now;
-    return true;
+/**
+ * Decrypt a raw UDP packet, trying each game's key until one yields its magic.
+ * Returns null if none does.
+ */
+export function decryptPacket(msg: Buffer, format: PacketFormat): DecryptedPacket | null {
+  for (const game of [lastGame, ...GAME_IDS.filter((g) => g !== lastGame)]) {
+    const decrypted = decryptAs(msg, game, format);
+    if (!decrypted) continue;
+    if (!detectedGames.has(game)) {
+      detectedGames.add(game);
+      console.log(`[GT7] Detected ${GAMES[game].name} packets`);
+    }
+    lastGame = game;
+    return decrypted;
   }
-  return false;
+  return null;
+}
+
+/** Process a raw UDP packet: decrypt, verify, parse. Returns null if invalid. */
+export function processPacket(
+  msg: Buffer,
+  format: PacketFormat = DEFAULT_PACKET_FORMAT,
+): TelemetryData | null {
+  const decrypted = decryptPacket(msg, format);
+  return decrypted ? parsePacket(decrypted.buf, decrypted.format, decrypted.game) : null;
+}
+
+interface UnknownRegion {
+  offset: number;
+  size: 1 | 4;
+  label: string;
+}
+
+// Regions nobody has mapped yet. 0xD4-0xF3 sits between the per-wheel suspension
+// block and the clutch, so its 8 words are labelled as two FL/FR/RL/RR blocks.
+const CORNER_LABELS = ["FL", "FR", "RL", "RR"];
+const UNKNOWN_REGIONS: UnknownRegion[] = [
+  { offset: 0x93, size: 1, label: "after brake" },
+  ...Array.from({ length: 8 }, (_, i) => ({
+    offset: 0xd4 + i * 4,
+    size: 4 as const,
+    label: `block ${i < 4 ? 1 : 2}, ${CORNER_LABELS[i % 4]}?`,
+  })),
+];
+
+const EXTENDED_UNKNOWN_REGIONS: Record<PacketFormat, UnknownRegion[]> = {
+  A: [],
+  B: [{ offset: 0x12c, size: 4, label: "after wheelRotation" }],
+  "~": [
+    { offset: 0x12c, size: 4, label: "after wheelRotation" },
+    { offset: 0x13e, size: 1, label: "after brakeFiltered" },
+    { offset: 0x13f, size: 1, label: "after brakeFiltered" },
+    { offset: 0x154, size: 4, label: "after energyRecovery" },
+  ],
+};
+
+/** Decrypt a packet and dump its still-unknown words for the raw inspector. */
+export function inspectPacket(
+  msg: Buffer,
+  format: PacketFormat = DEFAULT_PACKET_FORMAT,
+): RawInspection | null {
+  const packet = decryptPacket(msg, format);
+  if (!packet) return null;
+
+  const decrypted = packet.buf;
+  const regions = [...UNKNOWN_REGIONS, ...EXTENDED_UNKNOWN_REGIONS[packet.format]];
+  const words: RawWord[] = regions.map(({ offset, size, label }) => {
+    const bytes = decrypted.subarray(offset, offset + size);
+    return {
+      offset,
+      size,
+      label,
+      hex: bytes.toString("hex"),
+      int: size === 4 ? decrypted.readInt32LE(offset) : decrypted.readUInt8(offset),
+      float: size === 4 ? decrypted.readFloatLE(offset) : null,
+    };
+  });
+
+  return {
+    packetId: decrypted.readInt32LE(0x70),
+    format: packet.format,
+    words,
+  };
 }
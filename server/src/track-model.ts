@@ -0,0 +1,206 @@
+import type { TelemetryData } from "@opengt/shared/types";
+
+const POINT_SPACING_M = 2; // reference path resolution
+const MAX_STEP_M = 50; // a bigger jump between packets is a rewind or reset, not driving
+const MAX_CLOSING_GAP_M = 50; // a lap's last sample must end this close to its first
+const MIN_LAP_LENGTH_M = 200;
+// Search around the last match: a little behind, further ahead (dropped packets)
+const SEARCH_BEHIND = 20;
+const SEARCH_AHEAD = 200;
+const MAX_OFFSET_M = 25; // further off the path than this, search the whole lap again
+
+interface PathPoint {
+  x: number;
+  y: number;
+  z: number;
+  distance: number; // metres from the start line along the reference lap
+}
+
+export interface TrackPosition {
+  distance: number; // metres from the start line
+  fraction: number; // 0-1 of the lap
+  offset: number; // metres from the reference path
+}
+
+/** A position on the dashboard's top-down track map. */
+export interface MapPoint {
+  x: number;
+  z: number;
+}
+
+export function isMapPoint(value: unknown): value is MapPoint {
+  if (typeof value !== "object" || value === null) return false;
+  const { x, z } = value as Partial<MapPoint>;
+  return Number.isFinite(x) && Number.isFinite(z);
+}
+
+export interface TrackModel {
+  /** Feed every on-track packet. Returns where on the lap the car is, or null until learned. */
+  onPacket(data: TelemetryData): TrackPosition | null;
+  /** Lap fraction of the reference path's point nearest to a map position, null until learned. */
+  fractionAt(point: MapPoint): number | null;
+  /** Map position of the reference path at a lap fraction, null until learned. */
+  pointAt(fraction: number): MapPoint | null;
+  /** Reference lap length in metres, 0 until learned. */
+  readonly length: number;
+  /** Forget the reference lap, e.g. for a new race. */
+  reset(): void;
+}
+
+type Vec3 = TelemetryData["position"];
+
+function distanceBetween(a: Vec3, b: Vec3): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+/**
+ * Learns the racing line from the first clean lap — started at the line, no pauses, no
+ * jumps, and back where it began — then projects every packet onto it.
+ */
+export function createTrackModel(): TrackModel {
+  let path: PathPoint[] = [];
+  let length = 0;
+  let lastIndex = -1;
+
+  // The lap being recorded; null while it can't count as clean
+  let recording: PathPoint[] | null = null;
+  let lastLapCount = -1;
+  let previous: Vec3 | null = null;
+
+  function record(data: TelemetryData): void {
+    const position = data.position;
+    const step = previous ? distanceBetween(position, previous) : 0;
+    previous = position;
+
+    if (data.lapCount !== lastLapCount) {
+      // Only a lap that ran from one lap change to the next can be learned
+      if (recording && lastLapCount >= 1 && data.lapCount === lastLapCount + 1) learn(recording);
+      recording = lastLapCount >= 0 && data.lapCount >= 1 ? [] : null;
+      lastLapCount = data.lapCount;
+    }
+    if (!recording) return;
+    if (data.paused || data.loading || step > MAX_STEP_M) {
+      recording = null;
+      return;
+    }
+
+    const last = recording[recording.length - 1];
+    if (!last) {
+      recording.push({ ...position, distance: 0 });
+      return;
+    }
+    const gap = distanceBetween(position, last);
+    if (gap >= POINT_SPACING_M) recording.push({ ...position, distance: last.distance + gap });
+  }
+
+  function learn(lap: PathPoint[]): void {
+    const first = lap[0];
+    const last = lap[lap.length - 1];
+    if (!first || !last) return;
+    const closingGap = distanceBetween(last, first);
+    const lapLength = last.distance + closingGap;
+    if (closingGap > MAX_CLOSING_GAP_M || lapLength < MIN_LAP_LENGTH_M) return;
+
+    path = lap;
+    length = lapLength;
+    lastIndex = -1;
+    recording = null; // one reference is enough
+    console.log(`[Track] Learned reference lap: ${Math.round(length)} m (${path.length} points)`);
+  }
+
+  /** Nearest point on segment i → i+1 (the last segment closes the loop). */
+  function projectOnto(i: number, position: Vec3) {
+    const a = path[i];
+    const b = path[(i + 1) % path.length];
+    const segmentEnd = i + 1 < path.length ? b.distance : length;
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const dz = b.z - a.z;
+    const segmentSq = dx * dx + dy * dy + dz * dz;
+    const along = (position.x - a.x) * dx + (position.y - a.y) * dy + (position.z - a.z) * dz;
+    const t = segmentSq > 0 ? Math.max(0, Math.min(1, along / segmentSq)) : 0;
+    const offset = Math.hypot(
+      position.x - (a.x + dx * t),
+      position.y - (a.y + dy * t),
+      position.z - (a.z + dz * t),
+    );
+    return { index: i, distance: a.distance + (segmentEnd - a.distance) * t, offset };
+  }
+
+  function nearest(position: Vec3, from: number, count: number) {
+    let best: ReturnType<typeof projectOnto> | null = null;
+    for (let k = 0; k < count; k++) {
+      const i = (((from + k) % path.length) + path.length) % path.length;
+      const candidate = projectOnto(i, position);
+      if (!best || candidate.offset < best.offset) best = candidate;
+    }
+    return best;
+  }
+
+  function locate(position: Vec3): TrackPosition | null {
+    if (path.length < 2) return null;
+
+    let match =
+      lastIndex >= 0
+        ? nearest(position, lastIndex - SEARCH_BEHIND, SEARCH_BEHIND + SEARCH_AHEAD)
+        : null;
+    if (!match || match.offset > MAX_OFFSET_M) match = nearest(position, 0, path.length);
+    if (!match) return null;
+
+    lastIndex = match.index;
+    // The end of the closing segment is the start line again
+    const distance = match.distance % length;
+    return { distance, fraction: distance / length, offset: match.offset };
+  }
+
+  function fractionAt(point: MapPoint): number | null {
+    if (path.length < 2) return null;
+    // The map is top-down, so height doesn't count
+    let best = path[0];
+    for (const candidate of path) {
+      if (
+        Math.hypot(candidate.x - point.x, candidate.z - point.z) <
+        Math.hypot(best.x - point.x, best.z - point.z)
+      ) {
+        best = candidate;
+      }
+    }
+    return best.distance / length;
+  }
+
+  function pointAt(fraction: number): MapPoint | null {
+    if (path.length < 2) return null;
+    const distance = Math.max(0, Math.min(1, fraction)) * length;
+    const i = path.findIndex((point) => point.distance > distance);
+    // Past the last point it's on the closing segment, back to the first
+    const a = path[i < 0 ? path.length - 1 : i - 1];
+    const b = path[i < 0 ? 0 : i];
+    const end = i < 0 ? length : b.distance;
+    const t = end > a.distance ? (distance - a.distance) / (end - a.distance) : 0;
+    return { x: a.x + (b.x - a.x) * t, z: a.z + (b.z - a.z) * t };
+  }
+
+  function onPacket(data: TelemetryData): TrackPosition | null {
+    if (length === 0) record(data);
+    return locate(data.position);
+  }
+
+  function reset(): void {
+    path = [];
+    length = 0;
+    lastIndex = -1;
+    recording = null;
+    lastLapCount = -1;
+    previous = null;
+  }
+
+  return {
+    onPacket,
+    fractionAt,
+    pointAt,
+    get length() {
+      return length;
+    },
+    reset,
+  };
+}
@@ -0,0 +1,162 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { GameId, TrackInfo } from "@opengt/shared/types";
+import type { MapPoint, TrackModel } from "./track-model.js";
+
+const OUTLINE_POINTS = 64;
+// Learned track lengths vary with the line driven; within this they may be the same track
+const TRACK_LENGTH_TOLERANCE = 0.03;
+// Each edge of the bounding box may move this much with the line driven
+const MAX_BOUNDS_SHIFT_M = 50;
+// Mean distance between matching outline points of two laps of the same layout
+const MAX_OUTLINE_OFFSET_M = 30;
+const MAX_NAME_LENGTH = 60;
+
+interface Bounds {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+/** What a learned reference lap looks like, from above. */
+export interface TrackFingerprint {
+  game: GameId;
+  length: number; // metres
+  bounds: Bounds;
+  outline: MapPoint[]; // evenly spaced along the lap, from the start line
+}
+
+interface StoredTrack extends TrackFingerprint {
+  id: string;
+  name: string | null;
+  learnedAt: string;
+}
+
+export interface TrackDatabase {
+  /** The known track a lap matches, or a new unnamed one learned from it. */
+  identify(fingerprint: TrackFingerprint): TrackInfo;
+  get(id: string): TrackInfo | null;
+  /** Name a track; an empty name makes it unnamed again. Null if there's no such track. */
+  rename(id: string, name: string): TrackInfo | null;
+}
+
+/** Fingerprint of a track model's reference lap, null until it has learned one. */
+export function fingerprintTrack(game: GameId, track: TrackModel): TrackFingerprint | null {
+  if (track.length === 0) return null;
+  const outline: MapPoint[] = [];
+  for (let i = 0; i < OUTLINE_POINTS; i++) {
+    const point = track.pointAt(i / OUTLINE_POINTS);
+    if (!point) return null;
+    outline.push({ x: Math.round(point.x), z: Math.round(point.z) });
+  }
+  const xs = outline.map((point) => point.x);
+  const zs = outline.map((point) => point.z);
+  return {
+    game,
+    length: Math.round(track.length),
+    bounds: {
+      minX: Math.min(...xs),
+      maxX: Math.max(...xs),
+      minZ: Math.min(...zs),
+      maxZ: Math.max(...zs),
+    },
+    outline,
+  };
+}
+
+/** Mean distance between the outlines, point by point; both start at the line. */
+function outlineOffset(a: MapPoint[], b: MapPoint[]): number {
+  if (a.length !== b.length) return Number.POSITIVE_INFINITY;
+  let total = 0;
+  for (let i = 0; i < a.length; i++) {
+    total += Math.hypot(a[i].x - b[i].x, a[i].z - b[i].z);
+  }
+  return total / a.length;
+}
+
+function boundsShift(a: Bounds, b: Bounds): number {
+  return Math.max(
+    Math.abs(a.minX - b.minX),
+    Math.abs(a.maxX - b.maxX),
+    Math.abs(a.minZ - b.minZ),
+    Math.abs(a.maxZ - b.maxZ),
+  );
+}
+
+function infoOf(track: StoredTrack): TrackInfo {
+  return { id: track.id, name: track.name, length: track.length };
+}
+
+/** Every track layout seen so far, in data/tracks.json. */
+export function createTrackDatabase(dataDir: string): TrackDatabase {
+  const filePath = path.join(dataDir, "tracks.json");
+  let tracks: StoredTrack[] = load();
+
+  function load(): StoredTrack[] {
+    if (!fs.existsSync(filePath)) return [];
+    try {
+      const stored = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+      return Array.isArray(stored) ? stored : [];
+    } catch {
+      return [];
+    }
+  }
+
+  function save(): void {
+    fs.mkdirSync(dataDir, { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(tracks, null, 2));
+  }
+
+  function identify(fingerprint: TrackFingerprint): TrackInfo {
+    // Cheap checks first; of the tracks left, the closest outline wins
+    let best: StoredTrack | null = null;
+    let bestOffset = MAX_OUTLINE_OFFSET_M;
+    for (const track of tracks) {
+      if (
+        track.game !== fingerprint.game ||
+        Math.abs(track.length / fingerprint.length - 1) > TRACK_LENGTH_TOLERANCE ||
+        boundsShift(track.bounds, fingerprint.bounds) > MAX_BOUNDS_SHIFT_M
+      ) {
+        continue;
+      }
+      const offset = outlineOffset(track.outline, fingerprint.outline);
+      if (offset <= bestOffset) {
+        best = track;
+        bestOffset = offset;
+      }
+    }
+    if (best) {
+      console.log(`[Tracks] Identified ${best.name ?? `unnamed track ${best.id}`}`);
+      return infoOf(best);
+    }
+
+    const track: StoredTrack = {
+      id: crypto.randomBytes(4).toString("hex"),
+      name: null,
+      ...fingerprint,
+      learnedAt: new Date().toISOString(),
+    };
+    tracks = [...tracks, track];
+    save();
+    console.log(`[Tracks] New track ${track.id}: ${track.length} m`);
+    return infoOf(track);
+  }
+
+  function get(id: string): TrackInfo | null {
+    const track = tracks.find((candidate) => candidate.id === id);
+    return track ? infoOf(track) : null;
+  }
+
+  function rename(id: string, name: string): TrackInfo | null {
+    const track = tracks.find((candidate) => candidate.id === id);
+    if (!track) return null;
+    track.name = name.trim().slice(0, MAX_NAME_LENGTH) || null;
+    save();
+    console.log(`[Tracks] Track ${id} named ${track.name ?? "(none)"}`);
+    return infoOf(track);
+  }
+
+  return { identify, get, rename };
+}
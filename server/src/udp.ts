@@ -1,22 +1,31 @@
 import dgram from "node:dgram";
 import os from "node:os";
 import { GT7_RECV_PORT, GT7_SEND_PORT } from "@opengt/shared/constants";
+import type { NetworkInterfaceInfo, PacketFormat } from "@opengt/shared/types";
 
-/** Calculate broadcast addresses from all IPv4 network interfaces */
-export function getBroadcastAddresses(): string[] {
-  const addresses: string[] = [];
+/** IPv4 interfaces that can broadcast, with their broadcast addresses */
+export function listNetworkInterfaces(): NetworkInterfaceInfo[] {
+  const result: NetworkInterfaceInfo[] = [];
   const interfaces = os.networkInterfaces();
-  for (const iface of Object.values(interfaces)) {
+  for (const [name, iface] of Object.entries(interfaces)) {
     if (!iface) continue;
     for (const info of iface) {
       if (info.family === "IPv4" && !info.internal && info.netmask) {
         const ip = info.address.split(".").map(Number);
         const mask = info.netmask.split(".").map(Number);
         const broadcast = ip.map((octet, i) => octet | (~mask[i] & 0xff)).join(".");
-        addresses.push(broadcast);
+        result.push({ name, address: info.address, broadcast });
       }
     }
   }
+  return result;
+}
+
+/** Calculate broadcast addresses from IPv4 network interfaces (all, or only the named ones) */
+export function getBroadcastAddresses(interfaces: string[] = []): string[] {
+  const addresses = listNetworkInterfaces()
+    .filter((info) => interfaces.length === 0 || interfaces.includes(info.name))
+    .map((info) => info.broadcast);
   return addresses.length > 0 ? addresses : ["255.255.255.255"];
 }
 
@@ -36,20 +45,28 @@ export function createUdpSocket(
   return socket;
 }
 
-/** Start sending heartbeat packets to PS5 targets at the given interval */
+/** Send one heartbeat to each target. The character selects the packet variant. */
+export function sendHeartbeat(socket: dgram.Socket, targets: string[], format: PacketFormat): void {
+  const hb = Buffer.from(format, "ascii");
+  for (const target of targets) {
+    socket.send(hb, GT7_SEND_PORT, target, (err) => {
+      if (err) console.error(`[GT7] Heartbeat error (${target}):`, err.message);
+    });
+  }
+}
+
+/**
+ * Start sending heartbeat packets to PS5 targets at the given interval.
+ * The heartbeat character selects which packet variant the console sends back.
+ */
 export function startHeartbeat(
   socket: dgram.Socket,
   getTargets: () => string[],
+  getFormat: () => PacketFormat,
   intervalMs: number,
 ): NodeJS.Timeout {
-  const hb = Buffer.from("A");
-
   function send() {
-    for (const target of getTargets()) {
-      socket.send(hb, GT7_SEND_PORT, target, (err) => {
-        if (err) console.error(`[GT7] Heartbeat error (${target}):`, err.message);
-      });
-    }
+    sendHeartbeat(socket, getTargets(), getFormat());
   }
 
   send();
@@ -0,0 +1,166 @@
+import {
+  CONSOLE_PACKET_HZ,
+  LOCKUP_SLIP_RATIO,
+  WHEELSPIN_SLIP_RATIO,
+} from "@opengt/shared/constants";
+import type {
+  FourCorners,
+  TelemetryData,
+  WheelSlipCounts,
+  WheelSlipKind,
+  WheelSlipSummary,
+} from "@opengt/shared/types";
+
+const WHEELS = ["fl", "fr", "rl", "rr"] as const;
+const MIN_SPEED_MS = 5; // slower than this, the ratio is mostly noise
+const BRAKE_ON = 10; // % pedal
+const THROTTLE_ON = 20; // % pedal
+// An episode ends once the slip is back under this share of its threshold
+const RELEASE_SHARE = 0.5;
+// Slipping again sooner than this after an episode ended is still the same one
+const REARM_TICKS = CONSOLE_PACKET_HZ / 2;
+
+type Wheel = (typeof WHEELS)[number];
+
+export interface WheelSlipEvent {
+  kind: WheelSlipKind;
+  wheel: Wheel;
+  corner: number;
+}
+
+export interface WheelSlipDetector {
+  /**
+   * Feed every on-track packet with the corner it's approaching or in (for lock-ups) and
+   * the one it's in or leaving (for wheelspin). Returns the episodes that began at it.
+   */
+  onPacket(data: TelemetryData, corner: { entry: number; exit: number }): WheelSlipEvent[];
+  /** Slip ratio per wheel at the last packet. */
+  ratios(): FourCorners<number>;
+  summary(): WheelSlipSummary;
+  /** Forget every count, e.g. for a new race. */
+  reset(): void;
+}
+
+/**
+ * Wheel surface speed over the car's, minus 1: below 0 locking, above 0 spinning. All 0 when
+ * the car is slower than minSpeed (m/s).
+ */
+export function slipRatios(data: TelemetryData, minSpeed = MIN_SPEED_MS): FourCorners<number> {
+  const carSpeed = data.speed / 3.6;
+  const ratios = { fl: 0, fr: 0, rl: 0, rr: 0 };
+  if (carSpeed < minSpeed) return ratios;
+  for (const wheel of WHEELS) {
+    const radius = data.tyreRadius[wheel];
+    if (radius <= 0) continue;
+    // wheelRPS is in rotations per second; its sign differs between games and versions
+    const wheelSpeed = Math.abs(data.wheelRPS[wheel]) * 2 * Math.PI * radius;
+    ratios[wheel] = wheelSpeed / carSpeed - 1;
+  }
+  return ratios;
+}
+
+function noCounts(): WheelSlipCounts {
+  return {
+    lockups: { fl: 0, fr: 0, rl: 0, rr: 0 },
+    wheelspins: { fl: 0, fr: 0, rl: 0, rr: 0 },
+  };
+}
+
+/**
+ * Lock-ups (a wheel slowing well below the car under braking) and wheelspin (turning well
+ * above it on the throttle), counted per wheel and lap and per corner.
+ */
+export function createWheelSlipDetector(): WheelSlipDetector {
+  let current: FourCorners<number> = { fl: 0, fr: 0, rl: 0, rr: 0 };
+  const slipping: FourCorners<WheelSlipKind | null> = { fl: null, fr: null, rl: null, rr: null };
+  const ended: FourCorners<{ kind: WheelSlipKind; tick: number } | null> = {
+    fl: null,
+    fr: null,
+    rl: null,
+    rr: null,
+  };
+  let tick = 0;
+  let lap = noCounts();
+  let lastLap = noCounts();
+  let corners: WheelSlipSummary["corners"] = [];
+  let lastEvent: WheelSlipSummary["lastEvent"] = null;
+  let lastLapCount = -1;
+
+  function count(event: WheelSlipEvent, lapCount: number): void {
+    const lockup = event.kind === "lockup";
+    (lockup ? lap.lockups : lap.wheelspins)[event.wheel]++;
+    if (event.corner >= 0) {
+      while (corners.length <= event.corner) corners.push({ lockups: 0, wheelspins: 0 });
+      if (lockup) corners[event.corner].lockups++;
+      else corners[event.corner].wheelspins++;
+    }
+    lastEvent = { ...event, lap: lapCount };
+  }
+
+  function onPacket(
+    data: TelemetryData,
+    corner: { entry: number; exit: number },
+  ): WheelSlipEvent[] {
+    if (data.lapCount !== lastLapCount) {
+      if (lastLapCount >= 0) lastLap = lap;
+      lap = noCounts();
+      lastLapCount = data.lapCount;
+    }
+
+    tick++;
+    current = slipRatios(data);
+    const braking = data.brake >= BRAKE_ON;
+    const accelerating = data.throttle >= THROTTLE_ON;
+    const events: WheelSlipEvent[] = [];
+
+    for (const wheel of WHEELS) {
+      const ratio = current[wheel];
+      const episode = slipping[wheel];
+      if (
+        (episode === "lockup" && ratio > LOCKUP_SLIP_RATIO * RELEASE_SHARE) ||
+        (episode === "wheelspin" && ratio < WHEELSPIN_SLIP_RATIO * RELEASE_SHARE)
+      ) {
+        slipping[wheel] = null;
+        ended[wheel] = { kind: episode, tick };
+      }
+      if (slipping[wheel]) continue;
+
+      let kind: WheelSlipKind | null = null;
+      if (braking && ratio <= LOCKUP_SLIP_RATIO) kind = "lockup";
+      else if (accelerating && ratio >= WHEELSPIN_SLIP_RATIO) kind = "wheelspin";
+      if (!kind) continue;
+
+      slipping[wheel] = kind;
+      const previous = ended[wheel];
+      if (previous?.kind === kind && tick - previous.tick < REARM_TICKS) continue;
+      const event = { kind, wheel, corner: kind === "lockup" ? corner.entry : corner.exit };
+      count(event, data.lapCount);
+      events.push(event);
+    }
+    return events;
+  }
+
+  function summary(): WheelSlipSummary {
+    return {
+      lap: structuredClone(lap),
+      lastLap: structuredClone(lastLap),
+      corners: corners.map((counts) => ({ ...counts })),
+      lastEvent,
+    };
+  }
+
+  function reset(): void {
+    current = { fl: 0, fr: 0, rl: 0, rr: 0 };
+    for (const wheel of WHEELS) {
+      slipping[wheel] = null;
+      ended[wheel] = null;
+    }
+    lap = noCounts();
+    lastLap = noCounts();
+    corners = [];
+    lastEvent = null;
+    lastLapCount = -1;
+  }
+
+  return { onPacket, ratios: () => current, summary, reset };
+}
@@ -1,9 +1,43 @@
+import type { GameId, PacketFormat } from "./types.js";
+
 export const WS_PORT = 4401;
 export const DASHBOARD_PORT = 4500;
 export const GT7_SEND_PORT = 33739;
 export const GT7_RECV_PORT = 33740;
+export const CONSOLE_PACKET_HZ = 60;
 export const BROADCAST_HZ = 30;
 export const HEARTBEAT_INTERVAL_MS = 10_000;
 export const MAGIC_GT7 = 0x47375330;
 export const SALSA_KEY = "Simulator Interface Packet GT7 ver 0.0";
+export const MAGIC_GT_SPORT = 0x30533647;
+export const SALSA_KEY_GT_SPORT = "Simulator Interface Packet ver 0.0";
 export const PACKET_SIZE = 296;
+
+// Slip ratio past which a wheel counts as locking (braking) or spinning (on the throttle)
+export const LOCKUP_SLIP_RATIO = -0.2;
+export const WHEELSPIN_SLIP_RATIO = 0.15;
+
+/** Packet variants, keyed by the heartbeat character that requests them. */
+export const PACKET_FORMATS: Record<PacketFormat, { size: number; ivXor: number }> = {
+  A: { size: 296, ivXor: 0xdeadbeaf },
+  B: { size: 316, ivXor: 0xdeadbeef },
+  "~": { size: 344, ivXor: 0x55fabb4f },
+};
+export const DEFAULT_PACKET_FORMAT: PacketFormat = "A";
+
+/**
+ * Games speaking the simulator interface, in detection order. Each has its own key and
+ * magic; GT Sport predates the longer variants and always sends the "A" layout.
+ */
+export const GAMES: Record<
+  GameId,
+  { name: string; salsaKey: string; magic: number; formats: PacketFormat[] }
+> = {
+  gt7: { name: "GT7", salsaKey: SALSA_KEY, magic: MAGIC_GT7, formats: ["A", "B", "~"] },
+  gtsport: {
+    name: "GT Sport",
+    salsaKey: SALSA_KEY_GT_SPORT,
+    magic: MAGIC_GT_SPORT,
+    formats: ["A"],
+  },
+};
@@ -0,0 +1,42 @@
+import type { TelemetryData } from "./types.js";
+
+// Values derived from the raw packet, shared by the server's parser and the
+// dashboard's binary decoder so both produce the same TelemetryData.
+
+export function formatLapTime(ms: number): string {
+  if (ms < 0) return "--:--.---";
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  const millis = ms % 1000;
+  return `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}.${millis.toString().padStart(3, "0")}`;
+}
+
+export type FlagFields = Pick<
+  TelemetryData,
+  | "carOnTrack"
+  | "paused"
+  | "loading"
+  | "inGear"
+  | "hasTurbo"
+  | "revLimiter"
+  | "handbrake"
+  | "lightsOn"
+  | "asmActive"
+  | "tcsActive"
+>;
+
+/** The status bits at 0x8E, as booleans. */
+export function parseFlags(flags: number): FlagFields {
+  return {
+    carOnTrack: !!(flags & 1),
+    paused: !!(flags & 2),
+    loading: !!(flags & 4),
+    inGear: !!(flags & 8),
+    hasTurbo: !!(flags & 16),
+    revLimiter: !!(flags & 32),
+    handbrake: !!(flags & 64),
+    lightsOn: !!(flags & 128),
+    asmActive: !!(flags & 1024),
+    tcsActive: !!(flags & 2048),
+  };
+}
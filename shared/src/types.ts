@@ -1,7 +1,14 @@
 // ── Raw telemetry from GT7 UDP packets ──────────────────────────
 
+/** Heartbeat character sent to the console: "A" = 296 bytes, "B" = 316 bytes, "~" = 344 bytes. */
+export type PacketFormat = "A" | "B" | "~";
+
+/** Game that sent a packet, detected from the key/magic pair that decrypts it. */
+export type GameId = "gt7" | "gtsport";
+
 export interface TelemetryData {
   magic: number;
+  game: GameId;
   position: { x: number; y: number; z: number };
   velocity: { x: number; y: number; z: number };
   rotation: { pitch: number; yaw: number; roll: number };
@@ -33,6 +40,9 @@ export interface TelemetryData {
   suggestedGear: number;
   throttle: number; // 0-100
   brake: number; // 0-100
+  // GT7 only — GT Sport leaves the road plane blank
+  roadPlane?: { x: number; y: number; z: number }; // unit normal of the road surface under the car
+  roadPlaneDistance?: number; // plane distance from world origin
   wheelRPS: { fl: number; fr: number; rl: number; rr: number };
   tyreRadius: { fl: number; fr: number; rl: number; rr: number };
   suspHeight: { fl: number; fr: number; rl: number; rr: number };
@@ -56,7 +66,145 @@ export interface TelemetryData {
   // Formatted times
   bestLapFormatted: string;
   lastLapFormatted: string;
-  currentLapTime: number; // not directly available, calculated from dayProgression
+  currentLapTime: number; // ms into the lap, -1 if unknown; counted by the server, not in the packet
+  // Track position, from the server's model of the reference lap; -1 until it's learned
+  lapDistance: number; // metres from the start line
+  lapFraction: number; // 0-1 of the lap
+  // Live delta at this point of the lap, ms, positive = slower; null without a reference lap
+  deltaToSessionBest: number | null;
+  deltaToAllTimeBest: number | null;
+  predictedLapTime: number; // ms, -1 without a reference lap
+  // Wheel surface speed over the car's, minus 1: below 0 locking, above 0 spinning; 0 when slow
+  slipRatio: { fl: number; fr: number; rl: number; rr: number };
+  // Vehicle dynamics, derived by the server; lateral and yaw are positive turning the same way
+  gForce: { lateral: number; longitudinal: number; vertical: number }; // g, car's frame; + = accelerating, 1 = level
+  yawRate: number; // rad/s
+  expectedYawRate: number; // rad/s the steering asks for, or the path's on packet "A"
+  slipAngle: number; // degrees between where the car points and where it's going
+  // Packet "B" and "~" only
+  wheelRotation?: number; // radians, steering angle
+  sway?: number; // lateral acceleration
+  heave?: number; // vertical acceleration
+  surge?: number; // longitudinal acceleration
+  // Packet "~" only
+  throttleFiltered?: number; // 0-100, after assists
+  brakeFiltered?: number; // 0-100, after assists
+  torqueVectors?: number[]; // 4 values, mapping to wheels not confirmed
+  energyRecovery?: number;
+}
+
+// ── Telemetry subscriptions ─────────────────────────────────────
+
+export type TelemetryField = keyof TelemetryData;
+
+/** json = TelemetryData objects on "telemetry", binary = wire frames on "telemetry:bin" */
+export type TelemetryEncoding = "json" | "binary";
+
+/** What one client wants from the telemetry stream. */
+export interface TelemetrySubscription {
+  hz: number; // capped at the console's 60Hz
+  fields: TelemetryField[] | null; // null = the whole TelemetryData; JSON only
+  encoding: TelemetryEncoding;
+}
+
+// ── Raw packet inspector ────────────────────────────────────────
+
+/** One still-unmapped region of the decrypted packet, shown as raw values. */
+export interface RawWord {
+  offset: number;
+  size: 1 | 4;
+  label: string;
+  hex: string; // bytes in packet order
+  int: number; // int32 LE for words, uint8 for single bytes
+  float: number | null; // float32 LE, null for single bytes
+}
+
+export interface RawInspection {
+  packetId: number;
+  format: PacketFormat;
+  words: RawWord[];
+}
+
+// ── Telemetry sources ───────────────────────────────────────────
+
+/** live = console over UDP, replay = logged .ndjson session, capture = raw .gtcap file */
+export type TelemetrySourceKind = "live" | "replay" | "capture" | "synthetic";
+
+export interface TelemetrySourceConfig {
+  kind: TelemetrySourceKind;
+  file?: string; // recording name for replay/capture
+  speed?: number; // playback rate, 1 = real time
+  loop?: boolean;
+}
+
+export interface TelemetrySourceState {
+  source: TelemetrySourceConfig;
+  recordings: string[]; // .ndjson and .gtcap files available to replay
+}
+
+// ── Console target ──────────────────────────────────────────────
+
+/** How the server finds and keeps talking to consoles. */
+export interface ConsoleTargetConfig {
+  explicitIPs: string[]; // pinned consoles; empty = auto-discover via broadcast
+  interfaces: string[]; // network interfaces to broadcast on; empty = all
+  heartbeatIntervalMs: number;
+}
+
+export interface NetworkInterfaceInfo {
+  name: string;
+  address: string;
+  broadcast: string;
+}
+
+// ── Relay ───────────────────────────────────────────────────────
+
+/** encrypted = datagrams exactly as the console sent them, decrypted = plaintext packet bytes */
+export type RelayMode = "encrypted" | "decrypted";
+
+/** A local UDP listener (another GT7 tool) that gets a copy of every console datagram. */
+export interface RelayTarget {
+  host: string;
+  port: number;
+  mode: RelayMode;
+}
+
+// ── UDP link quality ────────────────────────────────────────────
+
+/** Rolling packet statistics derived from packetId sequence and arrival times. */
+export interface LinkQualityStats {
+  windowMs: number;
+  received: number;
+  lost: number; // gaps in packetId not filled by late arrivals
+  duplicates: number;
+  reordered: number; // arrived after a newer packet, dropped
+  lossPercent: number; // 0-100
+  packetRate: number; // packets/s actually received
+  jitterMs: number; // smoothed deviation from the console's 60Hz spacing
+}
+
+/**
+ * Console link, driven by packet arrival: searching (broadcasting) → locked (packets flowing)
+ * → stale (packets stopped, still heart-beating it) → lost (given up) → searching.
+ */
+export type ConsoleLinkPhase = "searching" | "locked" | "stale" | "lost";
+
+export interface ConsoleLinkState {
+  phase: ConsoleLinkPhase;
+  address: string | null; // null while searching
+  since: number; // when this phase began
+  lastPacketAt: number | null;
+}
+
+/** A console (or non-live source) the server is receiving telemetry from. */
+export interface ConsoleInfo {
+  id: string; // source address, or the source kind for replay/capture/synthetic
+  address: string | null;
+  game: GameId | null; // null until the first packet is parsed
+  carCode: number;
+  carOnTrack: boolean;
+  lastPacketAt: number;
+  primary: boolean; // followed by clients that haven't picked a console
 }
 
 // ── Processed telemetry snapshot & trends ───────────────────────
@@ -71,6 +219,183 @@ export interface FourCorners<T> {
   rr: T;
 }
 
+/**
+ * purple = fastest this sector has been driven in the session, green = quicker than on the
+ * session's best lap, yellow = neither, none = nothing to compare with yet
+ */
+export type SectorStatus = "purple" | "green" | "yellow" | "none";
+
+export interface SectorTiming {
+  splits: number[]; // lap fractions where each sector after the first starts
+  splitPoints: { x: number; z: number }[]; // the same splits on the reference lap, for the map
+  custom: boolean; // user-picked splits rather than automatic thirds
+  current: number; // index of the sector in progress, -1 if unknown
+  last: number[]; // ms per sector on its last timed pass, -1 if not timed
+  lastDelta: (number | null)[]; // ms against the best before that pass, positive = slower
+  lastStatus: SectorStatus[];
+  best: number[]; // ms, -1 if not timed this session
+  theoreticalBest: number; // ms, sum of the best sectors, -1 until each has one
+  lastCompleted: { sector: number; time: number; status: SectorStatus } | null;
+}
+
+/** One pass through a corner. Speeds in km/h. */
+export interface CornerPass {
+  lap: number;
+  brakingPoint: number; // metres from the line where braking began, -1 if not braked for
+  entrySpeed: number; // at the braking point, or at turn-in if not braked for
+  minSpeed: number;
+  exitSpeed: number;
+  gear: number; // at the slowest point
+  time: number; // ms from the braking point (or turn-in) to the exit
+}
+
+export interface CornerAnalysis {
+  count: number; // corners found on the track, 0 until a clean lap has been driven
+  current: number; // index of the corner being driven, -1 between corners
+  last: (CornerPass | null)[]; // latest pass through each corner
+  reference: (CornerPass | null)[]; // each corner on the session's best lap
+  // Latest pass against the reference: ms (positive = slower) and km/h (negative = slower)
+  lastDelta: ({ time: number; minSpeed: number } | null)[];
+}
+
+export type WheelSlipKind = "lockup" | "wheelspin";
+
+/** Lock-ups and wheelspin, counted once per episode. */
+export interface WheelSlipCounts {
+  lockups: FourCorners<number>;
+  wheelspins: FourCorners<number>;
+}
+
+export interface WheelSlipSummary {
+  lap: WheelSlipCounts; // this lap so far
+  lastLap: WheelSlipCounts;
+  corners: { lockups: number; wheelspins: number }[]; // this session, by corner
+  lastEvent: {
+    kind: WheelSlipKind;
+    wheel: keyof FourCorners<number>;
+    corner: number; // index into corners, -1 if not near a known one
+    lap: number;
+  } | null;
+}
+
+export type HandlingBalance = "understeer" | "neutral" | "oversteer";
+
+/** Grip used and handling over one lap. */
+export interface DynamicsLap {
+  peakLateralG: number;
+  peakBrakingG: number; // positive
+  peakAccelerationG: number;
+  understeerShare: number; // 0-1 of the cornering
+  oversteerShare: number; // 0-1 of the cornering
+  maxSlipAngle: number; // degrees
+}
+
+export interface DynamicsSummary {
+  gForce: TelemetryData["gForce"]; // at the last packet
+  slipAngle: number;
+  balance: HandlingBalance;
+  lap: DynamicsLap; // this lap so far
+  lastLap: DynamicsLap;
+}
+
+/** An upshift against the learned optimum: early, late, or left until the limiter caught it. */
+export type ShiftVerdict = "good" | "early" | "late" | "limiter";
+
+export interface ShiftEvent {
+  lap: number;
+  fromGear: number;
+  rpm: number; // the last in the old gear
+  optimalRpm: number; // -1 until learned
+  verdict: ShiftVerdict | null; // null when there was nothing to judge it by
+}
+
+/** Upshifts over one lap. */
+export interface ShiftQuality {
+  shifts: number;
+  good: number;
+  early: number;
+  late: number;
+  limiter: number;
+  ignoredSuggestions: number; // the game's suggested gear shown for 2s and not taken
+  score: number; // 0-1 of the judged shifts that were good, -1 if none
+  worstGear: number; // the gear shifted out of worst, -1 if none
+}
+
+export interface GearInfo {
+  gear: number;
+  ratio: number;
+  speedAtRedline: number; // km/h, -1 until learned
+  shiftRpm: number; // best upshift out of this gear, -1 until learned or for top gear
+}
+
+export interface ShiftAnalysis {
+  redline: number; // rpm
+  gears: GearInfo[];
+  lap: ShiftQuality; // this lap so far
+  lastLap: ShiftQuality;
+  lastShift: ShiftEvent | null;
+}
+
+export interface PitStop {
+  lap: number; // lap the car entered the pit lane on
+  laneTime: number; // ms from pit entry to exit
+  stationaryTime: number; // ms in the box
+  fuelAdded: number; // litres
+  tyresChanged: boolean;
+}
+
+export interface Stint {
+  number: number; // 1-based
+  startLap: number;
+  endLap: number; // -1 while it's running
+  laps: number; // completed, in- and out-laps included
+  fuelUsed: number; // litres
+  averageLapTime: number; // ms over laps without a pit stop, -1 if none
+  bestLapTime: number; // ms, -1 if none
+}
+
+export interface PitHistory {
+  inPitLane: boolean;
+  stops: PitStop[];
+  stints: Stint[]; // the last one is running
+}
+
+/** What it takes to reach the flag on fuel, for races with a set number of laps. */
+export interface FuelStrategy {
+  lapsToGo: number; // including what's left of the current lap
+  fuelToFinish: number; // litres at the current burn rate
+  margin: number; // litres left at the flag; negative = short
+  savePerLap: number; // litres a lap to make the finish without stopping, 0 if not short
+  stopsNeeded: number; // 0 if saving is enough
+  pitWindow: { open: number; close: number } | null; // box at the end of a lap in this range
+}
+
+export type StartKind = "standing" | "rolling";
+
+/** How the car got away at the green light. */
+export interface StartReport {
+  kind: StartKind;
+  gridPosition: number; // 1-based, -1 if not sent
+  cars: number; // on the grid, -1 if not sent
+  speedAtGreen: number; // km/h
+  launchGear: number; // at the green light
+  launchRpm: number;
+  reactionTime: number; // ms from green to throttle or moving off, -1 until then
+  reactionFrom: "throttle" | "movement"; // movement when the throttle was already down at green
+  wheelspinTime: number; // ms of the launch with a wheel spinning
+  peakSlip: number; // highest slip ratio during the launch
+  zeroTo100: number; // ms from moving off, -1 if not reached or a rolling start
+  zeroTo200: number; // ms from moving off, -1 if not reached or a rolling start
+  complete: boolean; // the launch is over: braking, 200 km/h or 15s on
+}
+
+/** A circuit layout, recognised by the shape of its learned reference lap. */
+export interface TrackInfo {
+  id: string;
+  name: string | null; // null until the user names it
+  length: number; // metres, of the lap it was first learned from
+}
+
 export interface TelemetrySnapshot {
   // Lap info
   lapCount: number;
@@ -78,6 +403,21 @@ export interface TelemetrySnapshot {
   lastLapTime: number; // ms, -1 if unset
   bestLapTime: number; // ms, -1 if unset
   lapDelta: number; // ms, positive = slower than best
+  currentLapTime: number; // ms into the current lap, -1 if unknown
+
+  // Track position
+  lapDistance: number; // metres from the start line, -1 until the track is learned
+  lapFraction: number; // 0-1, -1 until the track is learned
+  trackLength: number; // metres, 0 until the track is learned
+  track: TrackInfo | null; // null until the track is learned
+
+  // Live delta, ms, positive = slower; null without a reference lap
+  deltaToSessionBest: number | null;
+  deltaToAllTimeBest: number | null;
+  predictedLapTime: number; // ms, -1 without a reference lap
+  allTimeBestLapTime: number; // ms, stored for this car and track, -1 if none
+  sectors: SectorTiming;
+  corners: CornerAnalysis;
   lapTimeTrend: LapTimeTrend;
   recentLapTimes: number[]; // last 5
 
@@ -87,12 +427,24 @@ export interface TelemetrySnapshot {
   fuelBurnRate: number; // per lap, 0 if not enough data or no fuel usage
   estimatedLapsRemaining: number; // Infinity if burn rate unknown or no fuel usage
   fuelUsageEnabled: boolean | null; // null = not yet determined, true = consuming fuel, false = no fuel usage
+  fuelStrategy: FuelStrategy | null; // null without a lap count or a burn rate
 
   // Tyres
   tyreTemps: FourCorners<number>;
   tyreTempTrend: FourCorners<TempTrend>;
+  wheelSlip: WheelSlipSummary;
+
+  // Vehicle dynamics
+  dynamics: DynamicsSummary;
+
+  // Pit stops and stints
+  pit: PitHistory;
+
+  // Race start
+  start: StartReport | null; // null until the green light of a race with a grid
 
   // Driving quality
+  shifts: ShiftAnalysis;
   revLimiterPercent: number; // 0-1, frequency this lap
   tcsPercent: number; // 0-1
   asmPercent: number; // 0-1
@@ -118,15 +470,25 @@ export interface TelemetrySnapshot {
 export type CalloutType =
   | "fuel_low"
   | "fuel_estimate"
+  | "fuel_save"
+  | "pit_window"
   | "tyre_temp_high"
   | "tyre_trend"
   | "lap_delta"
   | "lap_summary"
-  | "rev_limiter"
+  | "shift_quality"
+  | "race_start"
   | "tcs_intervention"
   | "asm_intervention"
   | "race_progress"
-  | "pace_summary";
+  | "pace_summary"
+  | "sector_purple"
+  | "sector_green"
+  | "corner_loss"
+  | "lockup"
+  | "wheelspin"
+  | "understeer"
+  | "oversteer";
 
 export type CalloutPriority = "critical" | "normal" | "info";
 export type VerbosityLevel = 1 | 2 | 3; // 1=minimal, 2=balanced, 3=full
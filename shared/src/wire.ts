@@ -0,0 +1,293 @@
+// Extensionless: the dashboard bundles this file from source, without .js → .ts mapping
+import { formatLapTime, parseFlags } from "./telemetry";
+import type { GameId, TelemetryData } from "./types.js";
+
+/**
+ * Compact binary encoding of TelemetryData for the "telemetry:bin" event.
+ *
+ * Every frame is a 4-byte header followed by fixed-layout little-endian values:
+ *
+ *   [version u8][kind u8][groups u8][game u8] [static block, keyframes only] [dynamic block]
+ *
+ * The static block holds what only changes between cars or laps (gear ratios, alert RPMs,
+ * lap times…), so it's sent in a keyframe when it changes and otherwise left out. The
+ * dynamic block is sent every frame. Booleans and formatted lap times aren't sent — the
+ * decoder derives them, exactly as the parser does.
+ *
+ * Any change to the layout below must bump WIRE_VERSION.
+ */
+export const WIRE_VERSION = 5;
+
+const KIND_KEYFRAME = 0;
+const KIND_DELTA = 1;
+const HEADER_SIZE = 4;
+
+// Which optional groups follow the always-present dynamic values
+const GROUP_ROAD_PLANE = 1;
+const GROUP_EXTENDED = 2; // packet "B" and "~"
+const GROUP_EXTENDED_FULL = 4; // packet "~" only
+
+// Game ids by wire code — append only
+const GAME_CODES: GameId[] = ["gt7", "gtsport"];
+
+type Scalar = "f32" | "i32" | "i16" | "u16" | "u8";
+
+const SIZES: Record<Scalar, number> = { f32: 4, i32: 4, i16: 2, u16: 2, u8: 1 };
+
+/** One number in the layout: a TelemetryData key, or an element of an object/array field. */
+interface Channel {
+  type: Scalar;
+  key: keyof TelemetryData;
+  sub?: string | number;
+  nullable?: boolean; // f32 only — null travels as NaN
+}
+
+const one = (type: Scalar, key: keyof TelemetryData): Channel => ({ type, key });
+const nullable = (key: keyof TelemetryData): Channel => ({ type: "f32", key, nullable: true });
+const each = (type: Scalar, key: keyof TelemetryData, subs: (string | number)[]): Channel[] =>
+  subs.map((sub) => ({ type, key, sub }));
+const XYZ = ["x", "y", "z"];
+const CORNERS = ["fl", "fr", "rl", "rr"];
+
+const STATIC: Channel[] = [
+  one("i32", "magic"),
+  one("i32", "carCode"),
+  one("f32", "fuelCapacity"),
+  one("i16", "totalLaps"),
+  one("i32", "bestLapTime"),
+  one("i32", "lastLapTime"),
+  one("i16", "raceStartPosition"),
+  one("i16", "preRaceNumCars"),
+  one("i16", "minAlertRPM"),
+  one("i16", "maxAlertRPM"),
+  one("i16", "calcMaxSpeed"),
+  one("f32", "transmissionTopSpeed"),
+  ...each("f32", "gearRatios", [0, 1, 2, 3, 4, 5, 6, 7]),
+];
+
+const DYNAMIC: Channel[] = [
+  one("i32", "packetId"),
+  ...each("f32", "position", XYZ),
+  ...each("f32", "velocity", XYZ),
+  ...each("f32", "rotation", ["pitch", "yaw", "roll"]),
+  one("f32", "orientationToNorth"),
+  ...each("f32", "angularVelocity", XYZ),
+  one("f32", "bodyHeight"),
+  one("f32", "engineRPM"),
+  one("f32", "fuelLevel"),
+  one("f32", "speed"),
+  one("f32", "boost"),
+  one("f32", "oilPressure"),
+  one("f32", "waterTemp"),
+  one("f32", "oilTemp"),
+  ...each("f32", "tyreTemp", CORNERS),
+  one("i16", "lapCount"),
+  one("i32", "dayProgression"),
+  one("i32", "currentLapTime"),
+  one("f32", "lapDistance"),
+  one("f32", "lapFraction"),
+  nullable("deltaToSessionBest"),
+  nullable("deltaToAllTimeBest"),
+  one("i32", "predictedLapTime"),
+  one("u16", "flags"),
+  one("u8", "currentGear"),
+  one("u8", "suggestedGear"),
+  one("u8", "throttle"),
+  one("u8", "brake"),
+  ...each("f32", "wheelRPS", CORNERS),
+  ...each("f32", "tyreRadius", CORNERS),
+  ...each("f32", "slipRatio", CORNERS),
+  ...each("f32", "gForce", ["lateral", "longitudinal", "vertical"]),
+  one("f32", "yawRate"),
+  one("f32", "expectedYawRate"),
+  one("f32", "slipAngle"),
+  ...each("f32", "suspHeight", CORNERS),
+  one("f32", "clutch"),
+  one("f32", "clutchEngagement"),
+  one("f32", "rpmFromClutchToGearbox"),
+];
+
+const ROAD_PLANE: Channel[] = [...each("f32", "roadPlane", XYZ), one("f32", "roadPlaneDistance")];
+
+const EXTENDED: Channel[] = [
+  one("f32", "wheelRotation"),
+  one("f32", "sway"),
+  one("f32", "heave"),
+  one("f32", "surge"),
+];
+
+const EXTENDED_FULL: Channel[] = [
+  one("u8", "throttleFiltered"),
+  one("u8", "brakeFiltered"),
+  ...each("f32", "torqueVectors", [0, 1, 2, 3]),
+  one("f32", "energyRecovery"),
+];
+
+function blockSize(channels: Channel[]): number {
+  return channels.reduce((size, channel) => size + SIZES[channel.type], 0);
+}
+
+function groupsOf(data: TelemetryData): number {
+  return (
+    (data.roadPlane ? GROUP_ROAD_PLANE : 0) |
+    (data.wheelRotation !== undefined ? GROUP_EXTENDED : 0) |
+    (data.throttleFiltered !== undefined ? GROUP_EXTENDED_FULL : 0)
+  );
+}
+
+function dynamicChannels(groups: number): Channel[] {
+  return [
+    ...DYNAMIC,
+    ...(groups & GROUP_ROAD_PLANE ? ROAD_PLANE : []),
+    ...(groups & GROUP_EXTENDED ? EXTENDED : []),
+    ...(groups & GROUP_EXTENDED_FULL ? EXTENDED_FULL : []),
+  ];
+}
+
+// Every combination of groups, laid out once
+const DYNAMIC_LAYOUTS = Array.from({ length: 8 }, (_, groups) => dynamicChannels(groups));
+
+function read(data: TelemetryData, { key, sub, nullable }: Channel): number {
+  const value = data[key] as unknown;
+  if (nullable && value === null) return Number.NaN;
+  if (sub === undefined) return (value as number | undefined) ?? 0;
+  return ((value as Record<string | number, number> | undefined)?.[sub] ?? 0) as number;
+}
+
+function assign(
+  target: Record<string, unknown>,
+  { key, sub, nullable }: Channel,
+  value: number,
+): void {
+  if (sub === undefined) {
+    target[key] = nullable && Number.isNaN(value) ? null : value;
+    return;
+  }
+  target[key] ??= typeof sub === "number" ? [] : {};
+  (target[key] as Record<string | number, number>)[sub] = value;
+}
+
+function writeBlock(
+  view: DataView,
+  offset: number,
+  channels: Channel[],
+  data: TelemetryData,
+): number {
+  for (const channel of channels) {
+    const value = read(data, channel);
+    switch (channel.type) {
+      case "f32":
+        view.setFloat32(offset, value, true);
+        break;
+      case "i32":
+        view.setInt32(offset, value, true);
+        break;
+      case "i16":
+        view.setInt16(offset, value, true);
+        break;
+      case "u16":
+        view.setUint16(offset, value, true);
+        break;
+      case "u8":
+        view.setUint8(offset, value);
+        break;
+    }
+    offset += SIZES[channel.type];
+  }
+  return offset;
+}
+
+function readBlock(
+  view: DataView,
+  offset: number,
+  channels: Channel[],
+  target: Record<string, unknown>,
+): number {
+  for (const channel of channels) {
+    let value: number;
+    switch (channel.type) {
+      case "f32":
+        value = view.getFloat32(offset, true);
+        break;
+      case "i32":
+        value = view.getInt32(offset, true);
+        break;
+      case "i16":
+        value = view.getInt16(offset, true);
+        break;
+      case "u16":
+        value = view.getUint16(offset, true);
+        break;
+      case "u8":
+        value = view.getUint8(offset);
+        break;
+    }
+    assign(target, channel, value);
+    offset += SIZES[channel.type];
+  }
+  return offset;
+}
+
+/** The static values as one comparable string, to tell when a new keyframe is needed. */
+export function staticSignature(data: TelemetryData): string {
+  return [data.game, ...STATIC.map((channel) => read(data, channel))].join(",");
+}
+
+/** Encode a frame. Keyframes carry the static block too. */
+export function encodeWireFrame(data: TelemetryData, keyframe: boolean): Uint8Array {
+  const groups = groupsOf(data);
+  const layout = DYNAMIC_LAYOUTS[groups];
+  const bytes = new Uint8Array(
+    HEADER_SIZE + (keyframe ? blockSize(STATIC) : 0) + blockSize(layout),
+  );
+  const view = new DataView(bytes.buffer);
+
+  view.setUint8(0, WIRE_VERSION);
+  view.setUint8(1, keyframe ? KIND_KEYFRAME : KIND_DELTA);
+  view.setUint8(2, groups);
+  view.setUint8(3, Math.max(0, GAME_CODES.indexOf(data.game)));
+
+  let offset = HEADER_SIZE;
+  if (keyframe) offset = writeBlock(view, offset, STATIC, data);
+  writeBlock(view, offset, layout, data);
+  return bytes;
+}
+
+export interface WireDecoder {
+  /** Decode one frame. Null for frames from another version, or deltas before the first keyframe. */
+  decode(frame: ArrayBuffer | ArrayBufferView): TelemetryData | null;
+}
+
+/** Decoder for one stream — it keeps the static values from the last keyframe. */
+export function createWireDecoder(): WireDecoder {
+  let statics: Record<string, unknown> | null = null;
+
+  function decode(frame: ArrayBuffer | ArrayBufferView): TelemetryData | null {
+    const view = ArrayBuffer.isView(frame)
+      ? new DataView(frame.buffer, frame.byteOffset, frame.byteLength)
+      : new DataView(frame);
+    if (view.byteLength < HEADER_SIZE || view.getUint8(0) !== WIRE_VERSION) return null;
+
+    const kind = view.getUint8(1);
+    const groups = view.getUint8(2);
+    const game = GAME_CODES[view.getUint8(3)] ?? "gt7";
+
+    let offset = HEADER_SIZE;
+    if (kind === KIND_KEYFRAME) {
+      const next: Record<string, unknown> = {};
+      offset = readBlock(view, offset, STATIC, next);
+      next.bestLapFormatted = formatLapTime(next.bestLapTime as number);
+      next.lastLapFormatted = formatLapTime(next.lastLapTime as number);
+      statics = next;
+    }
+    if (!statics) return null;
+
+    // Static objects (gearRatios) are shared between frames rather than rebuilt each time
+    const data: Record<string, unknown> = { ...statics, game };
+    readBlock(view, offset, DYNAMIC_LAYOUTS[groups & 7], data);
+    Object.assign(data, parseFlags(data.flags as number));
+    return data as unknown as TelemetryData;
+  }
+
+  return { decode };
+}